@@ -1,20 +1,48 @@
 import { NextResponse } from 'next/server';
 import { runAgent } from '@/lib/agent';
-import { listPendingUploads, listVideos } from '@/lib/db';
+import { getDaemonStatus, listPendingUploads, listVideos, RunTrigger } from '@/lib/db';
+import { RUN_TRIGGERS } from '@/lib/run-history';
+import { RunInProgressError } from '@/lib/run-lock';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300;
 
-export async function POST() {
-  const result = await runAgent();
-  return NextResponse.json(result);
+async function readTrigger(request: Request): Promise<RunTrigger> {
+  try {
+    const body = (await request.json()) as { trigger?: unknown };
+    const trigger = RUN_TRIGGERS.find((candidate) => candidate === body.trigger);
+    return trigger ?? 'api';
+  } catch {
+    return 'api';
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const dryRun = ['1', 'true'].includes(new URL(request.url).searchParams.get('dryRun') ?? '');
+    const result = await runAgent({ trigger: await readTrigger(request), dryRun });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof RunInProgressError) {
+      return NextResponse.json(
+        { error: 'Run already in progress', activeRunId: error.activeRunId },
+        { status: 409 },
+      );
+    }
+    throw error;
+  }
 }
 
 export async function GET() {
-  const [pending, recent] = await Promise.all([listPendingUploads(), listVideos(50)]);
+  const [pending, recent, daemon] = await Promise.all([
+    listPendingUploads(),
+    listVideos(50),
+    getDaemonStatus(),
+  ]);
   return NextResponse.json({
     pending,
     recent,
+    daemon,
   });
 }
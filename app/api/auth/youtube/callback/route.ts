@@ -0,0 +1,77 @@
+import { google } from 'googleapis';
+import { NextRequest, NextResponse } from 'next/server';
+import { getChannel } from '@/lib/channels';
+import { logger } from '@/lib/logger';
+import { meterYoutubeCall } from '@/lib/quota';
+import {
+  createOAuthClient,
+  OAUTH_STATE_COOKIE,
+  resolveRedirectUri,
+  storeConnectedAccount,
+} from '@/lib/youtube-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function redirectToDashboard(request: NextRequest, params: Record<string, string>) {
+  const url = new URL('/', request.url);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  const response = NextResponse.redirect(url);
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/youtube' });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const state = searchParams.get('state');
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!state || !expectedState || state !== expectedState) {
+    return redirectToDashboard(request, { youtubeAuthError: 'OAuth state mismatch, start the connect flow again' });
+  }
+
+  const channelId = state.slice(state.indexOf(':') + 1);
+  const denied = searchParams.get('error');
+  if (denied) {
+    return redirectToDashboard(request, { youtubeAuthError: `Google returned ${denied}`, channel: channelId });
+  }
+  const code = searchParams.get('code');
+  if (!code) {
+    return redirectToDashboard(request, { youtubeAuthError: 'Missing authorization code', channel: channelId });
+  }
+
+  try {
+    const channel = getChannel(channelId);
+    const oauth2Client = createOAuthClient(channel, resolveRedirectUri(request.url));
+    const { tokens } = await oauth2Client.getToken(code);
+    if (!tokens.refresh_token) {
+      throw new Error('Google did not return a refresh token; remove the app from your Google account and reconnect');
+    }
+    oauth2Client.setCredentials(tokens);
+
+    const response = await meterYoutubeCall(channel.id, 'channels.list', () =>
+      google.youtube({ version: 'v3', auth: oauth2Client }).channels.list({
+        part: ['snippet'],
+        mine: true,
+      }),
+    );
+    const [account] = response.data.items ?? [];
+    if (channel.youtubeChannelId && account?.id !== channel.youtubeChannelId) {
+      throw new Error(
+        `Signed-in account owns channel ${account?.id ?? 'none'}, expected ${channel.youtubeChannelId}`,
+      );
+    }
+
+    await storeConnectedAccount(channel, tokens.refresh_token, {
+      id: account?.id ?? null,
+      title: account?.snippet?.title ?? null,
+    });
+    return redirectToDashboard(request, { youtubeConnected: channel.id });
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+    logger.error('YouTube OAuth callback failed', { channel: channelId, error: message });
+    return redirectToDashboard(request, { youtubeAuthError: message, channel: channelId });
+  }
+}
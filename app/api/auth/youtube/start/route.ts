@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CHANNEL_ID, getChannel } from '@/lib/channels';
+import { hasEncryptionKey } from '@/lib/secrets';
+import {
+  createOAuthClient,
+  OAUTH_STATE_COOKIE,
+  resolveRedirectUri,
+  YOUTUBE_OAUTH_SCOPES,
+} from '@/lib/youtube-auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!hasEncryptionKey()) {
+    return NextResponse.json(
+      { error: 'TOKEN_ENCRYPTION_KEY must be set before connecting a YouTube account' },
+      { status: 500 },
+    );
+  }
+
+  const channelId = request.nextUrl.searchParams.get('channel') ?? DEFAULT_CHANNEL_ID;
+  let oauth2Client: ReturnType<typeof createOAuthClient>;
+  try {
+    oauth2Client = createOAuthClient(getChannel(channelId), resolveRedirectUri(request.url));
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const state = `${crypto.randomBytes(16).toString('hex')}:${channelId}`;
+  // prompt=consent makes Google issue a fresh refresh token even if the app was granted before.
+  const authUrl = oauth2Client.generateAuthUrl({
+    access_type: 'offline',
+    prompt: 'consent',
+    scope: YOUTUBE_OAUTH_SCOPES,
+    state,
+  });
+
+  const response = NextResponse.redirect(authUrl);
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    maxAge: 10 * 60,
+    path: '/api/auth/youtube',
+  });
+  return response;
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requeueDeadVideo } from '@/lib/db';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const videoId = Number(id);
+  if (!Number.isInteger(videoId)) {
+    return NextResponse.json({ error: 'Invalid video id' }, { status: 400 });
+  }
+
+  const requeued = await requeueDeadVideo(videoId);
+  if (!requeued) {
+    return NextResponse.json({ error: 'Video not found in dead-letter state' }, { status: 404 });
+  }
+
+  return NextResponse.json({ requeued: true });
+}
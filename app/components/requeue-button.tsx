@@ -0,0 +1,41 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+
+export function RequeueButton({ videoId }: { videoId: number }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequeue = () => {
+    startTransition(async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/videos/${videoId}/requeue`, { method: 'POST' });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.error ?? `Request failed (${response.status})`);
+          return;
+        }
+        router.refresh();
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <button
+        type="button"
+        onClick={handleRequeue}
+        disabled={isPending}
+        className="rounded-md border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-700 hover:bg-zinc-100 disabled:cursor-not-allowed disabled:text-zinc-400"
+      >
+        {isPending ? 'Requeueing…' : 'Requeue'}
+      </button>
+      {error ? <span className="text-xs text-rose-500">{error}</span> : null}
+    </div>
+  );
+}
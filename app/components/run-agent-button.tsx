@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useState, useTransition } from 'react';
 
@@ -7,18 +8,28 @@ export function RunAgentButton() {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [lastResult, setLastResult] = useState<string | null>(null);
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
 
   const handleRun = () => {
     startTransition(async () => {
       setLastResult(null);
+      setLastRunId(null);
       try {
         const response = await fetch('/api/agent', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ trigger: 'button' }),
         });
         const data = await response.json();
+        if (response.status === 409) {
+          setLastResult(`Run already in progress (run ${data.activeRunId ?? 'unknown'})`);
+          setLastRunId(data.activeRunId ?? null);
+          return;
+        }
+        setLastRunId(data.runId ?? null);
         setLastResult(
-          `Scanned ${data.scanned}, scheduled ${data.scheduled}, uploaded ${data.uploaded}, failed ${data.failed}`,
+          `Scanned ${data.scanned}, scheduled ${data.scheduled}, uploaded ${data.uploaded}, failed ${data.failed}` +
+            (data.deferred ? `, deferred ${data.deferred} (quota)` : ''),
         );
         router.refresh();
       } catch (error) {
@@ -38,6 +49,11 @@ export function RunAgentButton() {
         {isPending ? 'Running…' : 'Run Agent Now'}
       </button>
       {lastResult ? <span className="text-sm text-zinc-600">{lastResult}</span> : null}
+      {lastRunId ? (
+        <Link href={`/runs/${lastRunId}`} className="text-sm text-blue-600 hover:underline">
+          View run details
+        </Link>
+      ) : null}
     </div>
   );
 }
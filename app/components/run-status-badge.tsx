@@ -0,0 +1,16 @@
+import type { RunStatus } from '@/lib/db';
+
+export function RunStatusBadge({ status }: { status: RunStatus }) {
+  const colors: Record<RunStatus, string> = {
+    running: 'bg-blue-100 text-blue-800',
+    succeeded: 'bg-emerald-100 text-emerald-800',
+    partial: 'bg-amber-100 text-amber-800',
+    failed: 'bg-rose-100 text-rose-800',
+  };
+
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${colors[status]}`}>
+      {status.toUpperCase()}
+    </span>
+  );
+}
@@ -0,0 +1,41 @@
+const WIDTH = 80;
+const HEIGHT = 20;
+
+export function Sparkline({
+  label,
+  points,
+  className,
+}: {
+  label: string;
+  points: { at: Date; value: number }[];
+  className: string;
+}) {
+  if (points.length < 2) return null;
+
+  // Points are spaced by time, so a burst between two close refreshes reads as steep.
+  const first = points[0].at.getTime();
+  const span = Math.max(points[points.length - 1].at.getTime() - first, 1);
+  const values = points.map((point) => point.value);
+  const min = Math.min(...values);
+  const range = Math.max(Math.max(...values) - min, 1);
+  const path = points
+    .map((point) => {
+      const x = ((point.at.getTime() - first) / span) * WIDTH;
+      const y = HEIGHT - ((point.value - min) / range) * HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      viewBox={`-1 -1 ${WIDTH + 2} ${HEIGHT + 2}`}
+      width={WIDTH}
+      height={HEIGHT}
+      className={className}
+      role="img"
+      aria-label={`${label} from ${values[0]} to ${values[values.length - 1]}`}
+    >
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
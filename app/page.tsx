@@ -1,6 +1,25 @@
+import Link from 'next/link';
+import { RequeueButton } from '@/app/components/requeue-button';
 import { RunAgentButton } from '@/app/components/run-agent-button';
+import { Sparkline } from '@/app/components/sparkline';
+import { getChannels } from '@/lib/channels';
 import { getConfig } from '@/lib/config';
-import { listPendingUploads, listVideos, VideoRecord } from '@/lib/db';
+import {
+  getDaemonStatus,
+  isDaemonAlive,
+  listAnalyticsSnapshots,
+  listDeadVideos,
+  listPendingUploads,
+  listUploadedVideos,
+  listVideos,
+  VideoRecord,
+} from '@/lib/db';
+import { getLlmUsage } from '@/lib/llm';
+import { analyzePostingTimes, MIN_POSTING_TIME_SAMPLES } from '@/lib/posting-times';
+import { getQuotaUsage, QuotaUsage } from '@/lib/quota';
+import { describeUploadWindows, WEEKDAY_NAMES } from '@/lib/schedule-rules';
+import { countOpenSlots } from '@/lib/scheduler';
+import { getYoutubeConnectionStatus, YoutubeConnectionStatus } from '@/lib/youtube-auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -19,6 +38,8 @@ function StatusBadge({ status }: { status: VideoRecord['status'] }) {
     processing: 'bg-purple-100 text-purple-800',
     uploaded: 'bg-emerald-100 text-emerald-800',
     failed: 'bg-rose-100 text-rose-800',
+    dead: 'bg-zinc-800 text-zinc-100',
+    rejected: 'bg-orange-100 text-orange-800',
   };
 
   return (
@@ -28,12 +49,69 @@ function StatusBadge({ status }: { status: VideoRecord['status'] }) {
   );
 }
 
-export default async function Home() {
+function describeConnection(connection: YoutubeConnectionStatus) {
+  if (connection.state === 'missing') return 'not connected';
+  if (connection.state === 'invalid') return 'token refresh failed';
+  const account = connection.accountChannelTitle ? ` as ${connection.accountChannelTitle}` : '';
+  return connection.source === 'stored'
+    ? `connected${account} on ${formatDate(connection.connectedAt)}`
+    : 'using the refresh token from configuration';
+}
+
+function describeQuotaOperations(quota: QuotaUsage) {
+  const operations = Object.entries(quota.byOperation).sort(([, a], [, b]) => b.units - a.units);
+  if (operations.length === 0) return 'no calls yet';
+  return operations.map(([operation, totals]) => `${operation} ×${totals.calls}`).join(', ');
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function readParam(params: SearchParams, key: string): string | null {
+  const value = params[key];
+  return typeof value === 'string' ? value : null;
+}
+
+export default async function Home({ searchParams }: { searchParams: Promise<SearchParams> }) {
   const config = getConfig();
-  const [pending, recent] = await Promise.all([
+  const channels = getChannels();
+  const multiChannel = channels.length > 1;
+  const [pending, latest, allUploaded, dead, daemon, connections, quotas, llmUsage, params] = await Promise.all([
     listPendingUploads(),
-    listVideos(50),
+    // The same window of records an agent run schedules against.
+    listVideos(200),
+    listUploadedVideos(),
+    listDeadVideos(),
+    getDaemonStatus(),
+    Promise.all(channels.map((channel) => getYoutubeConnectionStatus(channel))),
+    Promise.all(channels.map((channel) => getQuotaUsage(channel.id))),
+    getLlmUsage(),
+    searchParams,
   ]);
+  // Channels sharing an OAuth client share one quota pool; show each pool once.
+  const recent = latest.slice(0, 50);
+  const quotaPools = quotas.filter(
+    (quota, index) => quotas.findIndex((other) => other.channelIds[0] === quota.channelIds[0]) === index,
+  );
+  const daemonAlive = isDaemonAlive(daemon);
+  const connectedChannel = readParam(params, 'youtubeConnected');
+  const authError = readParam(params, 'youtubeAuthError');
+  const brokenConnections = connections.filter((connection) => connection.state !== 'connected');
+  const channelName = (channelId: string) =>
+    channels.find((channel) => channel.id === channelId)?.name ?? channelId;
+
+  // A channel is backed up when more videos wait for a slot than its rules leave open.
+  const backlogs = channels
+    .map((channel) => ({
+      channel,
+      waiting: pending.filter((video) => video.channelId === channel.id && video.status === 'new').length,
+      openSlots: countOpenSlots(latest, channel),
+    }))
+    .filter(({ waiting, openSlots }) => waiting > openSlots);
+
+  const snapshots = await listAnalyticsSnapshots(
+    recent.filter((video) => video.youtubeVideoId).map((video) => video.id),
+  );
+  const postingTimes = channels.map((channel) => ({ channel, report: analyzePostingTimes(allUploaded, channel) }));
 
   const uploaded = recent.filter((video) => video.status === 'uploaded');
   const failed = recent.filter((video) => video.status === 'failed');
@@ -45,15 +123,121 @@ export default async function Home() {
         <header className="flex flex-col justify-between gap-6 rounded-2xl bg-white p-8 shadow-sm md:flex-row md:items-center">
           <div>
             <h1 className="text-3xl font-semibold text-zinc-900">YouTube Shorts Automation Agent</h1>
+            {channels.map((channel) => (
+              <p key={channel.id} className="mt-2 text-sm text-zinc-500">
+                {multiChannel ? <span className="font-medium text-zinc-700">{channel.name}: </span> : null}
+                Monitoring <code className="rounded bg-zinc-100 px-1 py-0.5">{channel.contentDir}</code>
+                {' '}for new shorts. Upload windows: {describeUploadWindows(channel.uploadWindows)}. Timezone:{' '}
+                {channel.timezone}.
+              </p>
+            ))}
+            {connections.map((connection) => (
+              <p key={`youtube-${connection.channelId}`} className="mt-2 text-sm text-zinc-500">
+                YouTube{multiChannel ? ` (${channelName(connection.channelId)})` : ''}:{' '}
+                {describeConnection(connection)}.{' '}
+                <a
+                  href={`/api/auth/youtube/start?channel=${encodeURIComponent(connection.channelId)}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {connection.state === 'missing' ? 'Connect' : 'Reconnect'}
+                </a>
+              </p>
+            ))}
+            {quotaPools.map((quota) => (
+              <p key={`quota-${quota.channelIds.join(',')}`} className="mt-2 text-sm text-zinc-500">
+                YouTube quota
+                {multiChannel ? ` (${quota.channelIds.map(channelName).join(', ')})` : ''}:{' '}
+                <span className={quota.remaining < config.youtubeUploadQuotaCost ? 'font-medium text-rose-600' : ''}>
+                  {quota.used.toLocaleString('en-US')} of {quota.limit.toLocaleString('en-US')} units used
+                </span>{' '}
+                on {quota.day} (Pacific) — {describeQuotaOperations(quota)}.
+              </p>
+            ))}
+            {llmUsage.calls > 0 ? (
+              <p className="mt-2 text-sm text-zinc-500">
+                LLM usage on {llmUsage.day} (UTC): {llmUsage.calls} calls ({llmUsage.cachedCalls} from cache),{' '}
+                {(llmUsage.inputTokens + llmUsage.outputTokens).toLocaleString('en-US')} tokens, about $
+                {llmUsage.costUsd.toFixed(4)}.
+              </p>
+            ) : null}
             <p className="mt-2 text-sm text-zinc-500">
-              Monitoring <code className="rounded bg-zinc-100 px-1 py-0.5">{config.contentDir}</code>
-              {' '}for new shorts. Upload windows: {config.uploadWindows}. Timezone: {config.timezone}.
+              {daemonAlive && daemon ? (
+                <>
+                  Scheduler {daemon.state === 'stopping' ? 'stopping' : 'running'}. Next agent run:{' '}
+                  {formatDate(daemon.nextAgentRunAt)}. Next analytics refresh:{' '}
+                  {formatDate(daemon.nextAnalyticsRunAt)}.
+                </>
+              ) : (
+                <>
+                  Scheduler daemon offline
+                  {daemon ? ` (last seen ${formatDate(daemon.heartbeatAt)})` : ''}. Start it with{' '}
+                  <code className="rounded bg-zinc-100 px-1 py-0.5">npm run agent:daemon</code>.
+                </>
+              )}
             </p>
+            <Link href="/runs" className="mt-2 inline-block text-sm text-blue-600 hover:underline">
+              Run history →
+            </Link>
           </div>
           <RunAgentButton />
         </header>
 
-        <section className="grid gap-4 md:grid-cols-4">
+        {connectedChannel ? (
+          <div className="rounded-2xl bg-emerald-50 px-6 py-4 text-sm text-emerald-900 shadow-sm">
+            Connected YouTube account for {channelName(connectedChannel)}. New uploads will use it
+            right away.
+          </div>
+        ) : null}
+
+        {authError ? (
+          <div className="rounded-2xl bg-rose-50 px-6 py-4 text-sm text-rose-900 shadow-sm">
+            Connecting YouTube failed: {authError}
+          </div>
+        ) : null}
+
+        {brokenConnections.map((connection) => (
+          <div
+            key={`reconnect-${connection.channelId}`}
+            className="flex flex-col justify-between gap-3 rounded-2xl bg-rose-50 px-6 py-4 text-sm text-rose-900 shadow-sm md:flex-row md:items-center"
+          >
+            <div>
+              <p className="font-medium">
+                {connection.state === 'invalid'
+                  ? `YouTube rejected the refresh token for ${channelName(connection.channelId)}.`
+                  : `${channelName(connection.channelId)} has no YouTube account connected.`}
+              </p>
+              <p className="mt-1">
+                {connection.state === 'invalid'
+                  ? `Uploads for this channel are paused until it is reconnected. ${connection.lastError ?? ''}`
+                  : 'Uploads for this channel will fail until an account is connected.'}
+              </p>
+            </div>
+            <a
+              href={`/api/auth/youtube/start?channel=${encodeURIComponent(connection.channelId)}`}
+              className="whitespace-nowrap rounded-lg bg-rose-600 px-4 py-2 font-medium text-white hover:bg-rose-700"
+            >
+              {connection.state === 'invalid' ? 'Reconnect' : 'Connect'}
+            </a>
+          </div>
+        ))}
+
+        {backlogs.map(({ channel, waiting, openSlots }) => (
+          <div
+            key={`backlog-${channel.id}`}
+            className="rounded-2xl bg-amber-50 px-6 py-4 text-sm text-amber-900 shadow-sm"
+          >
+            <p className="font-medium">
+              {waiting} {waiting === 1 ? 'video is' : 'videos are'} waiting for an upload slot
+              {multiChannel ? ` on ${channel.name}` : ''}, but only {openSlots} {openSlots === 1 ? 'slot is' : 'slots are'}{' '}
+              free in the next {channel.scheduleHorizonDays} days.
+            </p>
+            <p className="mt-1">
+              Add upload windows, raise the daily cap or the scheduling horizon, or shorten blackout dates.
+            </p>
+          </div>
+        ))}
+
+        <section className="grid gap-4 md:grid-cols-5">
           <div className="rounded-xl bg-white p-5 shadow-sm">
             <p className="text-sm text-zinc-500">Pending Queue</p>
             <p className="mt-2 text-3xl font-semibold text-zinc-900">{pending.length}</p>
@@ -70,6 +254,105 @@ export default async function Home() {
             <p className="text-sm text-zinc-500">Failures (need review)</p>
             <p className="mt-2 text-3xl font-semibold text-zinc-900">{failed.length}</p>
           </div>
+          <div className="rounded-xl bg-white p-5 shadow-sm">
+            <p className="text-sm text-zinc-500">Dead Letter</p>
+            <p className="mt-2 text-3xl font-semibold text-zinc-900">{dead.length}</p>
+          </div>
+        </section>
+
+        {dead.length > 0 ? (
+          <section className="rounded-2xl bg-white p-8 shadow-sm">
+            <h2 className="text-xl font-semibold text-zinc-900">Dead Letter</h2>
+            <p className="mt-1 text-sm text-zinc-500">
+              Uploads that failed permanently or exhausted {config.maxUploadAttempts} attempts. Requeue
+              once the underlying problem is fixed.
+            </p>
+
+            <div className="mt-6 overflow-x-auto">
+              <table className="min-w-full divide-y divide-zinc-200 text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Filename</th>
+                    <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Attempts</th>
+                    <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Last Attempt</th>
+                    <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Error</th>
+                    <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100">
+                  {dead.map((video) => (
+                    <tr key={`dead-${video.id}`} className="align-top">
+                      <td className="px-4 py-3 font-medium text-zinc-900">{video.filename}</td>
+                      <td className="px-4 py-3 text-zinc-600">{video.retryCount}</td>
+                      <td className="px-4 py-3 text-zinc-600">{formatDate(video.updatedAt)}</td>
+                      <td className="px-4 py-3 text-xs text-rose-500">{video.error ?? '—'}</td>
+                      <td className="px-4 py-3">
+                        <RequeueButton videoId={video.id} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ) : null}
+
+        <section className="rounded-2xl bg-white p-8 shadow-sm">
+          <h2 className="text-xl font-semibold text-zinc-900">Best Posting Times</h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            Weekdays and hours whose uploads gathered views and likes fastest, against each channel&apos;s
+            median video. Set <code className="rounded bg-zinc-100 px-1 py-0.5">SCHEDULE_MODE=performance</code>{' '}
+            to schedule into them.
+          </p>
+
+          {postingTimes.map(({ channel, report }) => (
+            <div key={`posting-times-${channel.id}`} className="mt-6">
+              <p className="text-sm text-zinc-600">
+                {multiChannel ? <span className="font-medium text-zinc-700">{channel.name}: </span> : null}
+                {report.sampleSize} {report.sampleSize === 1 ? 'video' : 'videos'} analysed
+                {channel.scheduleMode === 'performance' ? ', scheduling by performance' : ''}.
+                {report.suggestedUploadWindows ? (
+                  <>
+                    {' '}Suggested windows:{' '}
+                    <code className="rounded bg-zinc-100 px-1 py-0.5">{report.suggestedUploadWindows}</code>
+                  </>
+                ) : (
+                  ` Recommendations start at ${MIN_POSTING_TIME_SAMPLES} uploaded videos with analytics.`
+                )}
+              </p>
+              {report.recommendations.length > 0 ? (
+                <div className="mt-3 overflow-x-auto">
+                  <table className="min-w-full divide-y divide-zinc-200 text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Day</th>
+                        <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Hour</th>
+                        <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Performance</th>
+                        <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Confidence</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-100">
+                      {report.recommendations.slice(0, 5).map((recommendation) => (
+                        <tr key={`${recommendation.weekday}-${recommendation.hour}`}>
+                          <td className="px-4 py-3 capitalize text-zinc-900">
+                            {WEEKDAY_NAMES[recommendation.weekday - 1]}
+                          </td>
+                          <td className="px-4 py-3 text-zinc-600">
+                            {String(recommendation.hour).padStart(2, '0')}:00
+                          </td>
+                          <td className="px-4 py-3 text-zinc-600">{recommendation.score.toFixed(2)}× median</td>
+                          <td className="px-4 py-3 text-zinc-600">
+                            {recommendation.confidence} ({recommendation.videos}{' '}
+                            {recommendation.videos === 1 ? 'video' : 'videos'})
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+            </div>
+          ))}
         </section>
 
         <section className="rounded-2xl bg-white p-8 shadow-sm">
@@ -83,6 +366,9 @@ export default async function Home() {
               <thead>
                 <tr className="text-left">
                   <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Filename</th>
+                  {multiChannel ? (
+                    <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Channel</th>
+                  ) : null}
                   <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Status</th>
                   <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Scheduled</th>
                   <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Uploaded</th>
@@ -99,6 +385,8 @@ export default async function Home() {
                   const analytics = (video.analytics as Record<string, unknown> | null) ?? null;
                   const viewCountRaw = analytics?.viewCount;
                   const likeCountRaw = analytics?.likeCount;
+                  const commentCountRaw = analytics?.commentCount;
+                  const history = snapshots.get(video.id) ?? [];
                   const suggestions = analytics && typeof analytics.suggestions === 'string'
                     ? analytics.suggestions
                     : null;
@@ -112,9 +400,17 @@ export default async function Home() {
                     : likeCountRaw != null
                       ? Number(likeCountRaw)
                       : null;
+                  const commentCount = typeof commentCountRaw === 'number'
+                    ? commentCountRaw
+                    : commentCountRaw != null
+                      ? Number(commentCountRaw)
+                      : null;
                   return (
                     <tr key={`${video.id}-${video.filename}`} className="align-top">
                       <td className="px-4 py-3 font-medium text-zinc-900">{video.filename}</td>
+                      {multiChannel ? (
+                        <td className="px-4 py-3 text-zinc-600">{video.channelId}</td>
+                      ) : null}
                       <td className="px-4 py-3"><StatusBadge status={video.status} /></td>
                       <td className="px-4 py-3 text-zinc-600">{formatDate(video.scheduledAt)}</td>
                       <td className="px-4 py-3 text-zinc-600">{formatDate(video.uploadedAt)}</td>
@@ -135,9 +431,31 @@ export default async function Home() {
                       <td className="px-4 py-3 text-zinc-600">{title}</td>
                       <td className="px-4 py-3 text-zinc-600">
                         {viewCount != null ? (
-                          <div className="flex flex-col text-xs text-zinc-500">
-                            <span>Views: {viewCount}</span>
-                            <span>Likes: {likeCount ?? '—'}</span>
+                          <div className="flex flex-col gap-1 text-xs text-zinc-500">
+                            <span className="flex items-center justify-between gap-2">
+                              Views: {viewCount}
+                              <Sparkline
+                                label="Views"
+                                points={history.map((snapshot) => ({ at: snapshot.capturedAt, value: snapshot.viewCount }))}
+                                className="text-blue-500"
+                              />
+                            </span>
+                            <span className="flex items-center justify-between gap-2">
+                              Likes: {likeCount ?? '—'}
+                              <Sparkline
+                                label="Likes"
+                                points={history.map((snapshot) => ({ at: snapshot.capturedAt, value: snapshot.likeCount }))}
+                                className="text-rose-500"
+                              />
+                            </span>
+                            <span className="flex items-center justify-between gap-2">
+                              Comments: {commentCount ?? '—'}
+                              <Sparkline
+                                label="Comments"
+                                points={history.map((snapshot) => ({ at: snapshot.capturedAt, value: snapshot.commentCount }))}
+                                className="text-emerald-500"
+                              />
+                            </span>
                             {suggestions ? (
                               <span className="mt-2 text-zinc-600">{suggestions}</span>
                             ) : null}
@@ -146,7 +464,22 @@ export default async function Home() {
                           <span className="text-zinc-400">—</span>
                         )}
                       </td>
-                      <td className="px-4 py-3 text-xs text-rose-500">{video.error ?? '—'}</td>
+                      <td className="px-4 py-3 text-xs text-rose-500">
+                        {video.error ?? '—'}
+                        {video.playlistAssignments
+                          .filter((assignment) => assignment.status !== 'added')
+                          .map((assignment) => (
+                            <span key={assignment.playlistId} className="mt-1 block">
+                              Playlist {assignment.playlistId}: {assignment.error}
+                              {assignment.status === 'dead' ? ' (not retried)' : ''}
+                            </span>
+                          ))}
+                        {video.status === 'failed' && video.nextAttemptAt ? (
+                          <span className="mt-1 block text-zinc-500">
+                            Retry {video.retryCount + 1} after {formatDate(video.nextAttemptAt)}
+                          </span>
+                        ) : null}
+                      </td>
                     </tr>
                   );
                 })}
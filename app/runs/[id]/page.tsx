@@ -0,0 +1,127 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { RunStatusBadge } from '@/app/components/run-status-badge';
+import { getRun, RunStep } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+function formatDate(value: Date | null | undefined, locale = 'en-US') {
+  if (!value) return '—';
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'medium',
+  }).format(value);
+}
+
+function formatMs(value: number) {
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${value}ms`;
+}
+
+const STEP_COLORS: Record<RunStep['status'], string> = {
+  ok: 'text-emerald-700',
+  error: 'text-rose-600',
+  skipped: 'text-zinc-400',
+};
+
+function groupSteps(steps: RunStep[]) {
+  const groups = new Map<string, RunStep[]>();
+  for (const step of steps) {
+    const key = step.filename ?? 'Run';
+    groups.set(key, [...(groups.get(key) ?? []), step]);
+  }
+  return [...groups.entries()];
+}
+
+export default async function RunDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    notFound();
+  }
+
+  const warnings = Array.isArray(run.result?.warnings) ? (run.result.warnings as string[]) : [];
+  const counts = Object.entries(run.result ?? {}).filter(
+    ([, value]) => typeof value === 'number',
+  ) as [string, number][];
+
+  return (
+    <main className="min-h-screen bg-zinc-100 px-6 py-10">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <header className="rounded-2xl bg-white p-8 shadow-sm">
+          <Link href="/runs" className="text-sm text-blue-600 hover:underline">
+            ← Run history
+          </Link>
+          <div className="mt-2 flex items-center gap-3">
+            <h1 className="text-3xl font-semibold text-zinc-900">Run {run.id.slice(0, 8)}</h1>
+            <RunStatusBadge status={run.status} />
+          </div>
+          <p className="mt-2 text-sm text-zinc-500">
+            Triggered by {run.trigger}. Started {formatDate(run.startedAt)}, finished{' '}
+            {formatDate(run.finishedAt)}.
+          </p>
+        </header>
+
+        {counts.length > 0 ? (
+          <section className="grid gap-4 md:grid-cols-6">
+            {counts.map(([key, value]) => (
+              <div key={key} className="rounded-xl bg-white p-5 shadow-sm">
+                <p className="text-sm capitalize text-zinc-500">{key}</p>
+                <p className="mt-2 text-3xl font-semibold text-zinc-900">{value}</p>
+              </div>
+            ))}
+          </section>
+        ) : null}
+
+        {run.errors.length > 0 ? (
+          <section className="rounded-2xl bg-white p-8 shadow-sm">
+            <h2 className="text-xl font-semibold text-zinc-900">Errors</h2>
+            <ul className="mt-4 flex flex-col gap-2 text-sm text-rose-600">
+              {run.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        {warnings.length > 0 ? (
+          <section className="rounded-2xl bg-white p-8 shadow-sm">
+            <h2 className="text-xl font-semibold text-zinc-900">Warnings</h2>
+            <ul className="mt-4 flex flex-col gap-2 text-sm text-amber-700">
+              {warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        <section className="rounded-2xl bg-white p-8 shadow-sm">
+          <h2 className="text-xl font-semibold text-zinc-900">Step Timeline</h2>
+          {run.steps.length === 0 ? (
+            <p className="mt-4 text-sm text-zinc-400">No steps recorded.</p>
+          ) : null}
+          <div className="mt-6 flex flex-col gap-6">
+            {groupSteps(run.steps).map(([filename, steps]) => (
+              <div key={filename}>
+                <h3 className="font-medium text-zinc-900">{filename}</h3>
+                <table className="mt-2 min-w-full divide-y divide-zinc-200 text-sm">
+                  <tbody className="divide-y divide-zinc-100">
+                    {steps.map((step, index) => (
+                      <tr key={`${step.step}-${index}`} className="align-top">
+                        <td className="w-32 px-4 py-2 text-zinc-600">{step.step}</td>
+                        <td className={`w-20 px-4 py-2 text-xs font-medium uppercase ${STEP_COLORS[step.status]}`}>
+                          {step.status}
+                        </td>
+                        <td className="w-24 px-4 py-2 text-zinc-500">{formatMs(step.durationMs)}</td>
+                        <td className="px-4 py-2 text-xs text-zinc-600">{step.message ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
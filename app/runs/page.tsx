@@ -0,0 +1,90 @@
+import Link from 'next/link';
+import { RunStatusBadge } from '@/app/components/run-status-badge';
+import { listRuns, RunRecord } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+function formatDate(value: Date | null | undefined, locale = 'en-US') {
+  if (!value) return '—';
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(value);
+}
+
+function formatDuration(run: RunRecord) {
+  if (!run.finishedAt) return '—';
+  const seconds = Math.round((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function readCount(run: RunRecord, key: string) {
+  const value = run.result?.[key];
+  return typeof value === 'number' ? value : '—';
+}
+
+export default async function RunsPage() {
+  const runs = await listRuns(100);
+
+  return (
+    <main className="min-h-screen bg-zinc-100 px-6 py-10">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <header className="rounded-2xl bg-white p-8 shadow-sm">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-semibold text-zinc-900">Run History</h1>
+          <p className="mt-2 text-sm text-zinc-500">
+            Every agent run with its trigger, outcome and per-video step timeline.
+          </p>
+        </header>
+
+        <section className="rounded-2xl bg-white p-8 shadow-sm">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-zinc-200 text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Started</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Trigger</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Status</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Duration</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Scanned</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Scheduled</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Uploaded</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Failed</th>
+                  <th className="whitespace-nowrap px-4 py-2 font-medium text-zinc-500">Errors</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100">
+                {runs.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-6 text-center text-zinc-400">
+                      No runs recorded yet.
+                    </td>
+                  </tr>
+                ) : null}
+                {runs.map((run) => (
+                  <tr key={run.id} className="align-top">
+                    <td className="px-4 py-3 font-medium text-zinc-900">
+                      <Link href={`/runs/${run.id}`} className="text-blue-600 hover:underline">
+                        {formatDate(run.startedAt)}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-zinc-600">{run.trigger}</td>
+                    <td className="px-4 py-3"><RunStatusBadge status={run.status} /></td>
+                    <td className="px-4 py-3 text-zinc-600">{formatDuration(run)}</td>
+                    <td className="px-4 py-3 text-zinc-600">{readCount(run, 'scanned')}</td>
+                    <td className="px-4 py-3 text-zinc-600">{readCount(run, 'scheduled')}</td>
+                    <td className="px-4 py-3 text-zinc-600">{readCount(run, 'uploaded')}</td>
+                    <td className="px-4 py-3 text-zinc-600">{readCount(run, 'failed')}</td>
+                    <td className="px-4 py-3 text-xs text-rose-500">{run.errors.length || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,69 @@
+import 'server-only';
+
+import {
+  listReadyToUpload,
+  markVideoAsProcessing,
+  markVideoAsUploaded,
+  recordVideoError,
+  releaseVideoClaim,
+  saveUploadSession,
+  upsertVideoRecord,
+} from './db';
+import { describeVideoFile, listVideoFiles } from './fs-utils';
+import { buildVideoMetadata, persistMetadataSnapshot } from './metadata';
+import { augmentMetadataWithTrending } from './trending';
+import { uploadShort } from './youtube';
+import { sendUploadNotification } from './notifications';
+import { refreshAnalyticsForVideos } from './analytics';
+import { retryFailedPlaylistAssignments, syncPlaylistAssignments } from './playlists';
+import { recoverStuckUploads } from './recovery';
+
+/**
+ * Everything a run does that writes state or talks to an external service. `runAgent` uses
+ * the live implementations; a dry run swaps in recording fakes (see `lib/dry-run.ts`).
+ * Scanning and metadata generation also keep caches and the LLM usage ledger, so they are
+ * here too.
+ */
+export interface AgentServices {
+  dryRun: boolean;
+  listVideoFiles: typeof listVideoFiles;
+  describeVideoFile: typeof describeVideoFile;
+  buildVideoMetadata: typeof buildVideoMetadata;
+  augmentMetadataWithTrending: typeof augmentMetadataWithTrending;
+  listReadyToUpload: typeof listReadyToUpload;
+  upsertVideoRecord: typeof upsertVideoRecord;
+  markVideoAsProcessing: typeof markVideoAsProcessing;
+  markVideoAsUploaded: typeof markVideoAsUploaded;
+  recordVideoError: typeof recordVideoError;
+  releaseVideoClaim: typeof releaseVideoClaim;
+  saveUploadSession: typeof saveUploadSession;
+  persistMetadataSnapshot: typeof persistMetadataSnapshot;
+  uploadShort: typeof uploadShort;
+  syncPlaylistAssignments: typeof syncPlaylistAssignments;
+  retryFailedPlaylistAssignments: typeof retryFailedPlaylistAssignments;
+  sendUploadNotification: typeof sendUploadNotification;
+  refreshAnalyticsForVideos: typeof refreshAnalyticsForVideos;
+  recoverStuckUploads: typeof recoverStuckUploads;
+}
+
+export const liveAgentServices: AgentServices = {
+  dryRun: false,
+  listVideoFiles,
+  describeVideoFile,
+  buildVideoMetadata,
+  augmentMetadataWithTrending,
+  listReadyToUpload,
+  upsertVideoRecord,
+  markVideoAsProcessing,
+  markVideoAsUploaded,
+  recordVideoError,
+  releaseVideoClaim,
+  saveUploadSession,
+  persistMetadataSnapshot,
+  uploadShort,
+  syncPlaylistAssignments,
+  retryFailedPlaylistAssignments,
+  sendUploadNotification,
+  refreshAnalyticsForVideos,
+  recoverStuckUploads,
+};
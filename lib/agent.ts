@@ -1,52 +1,94 @@
 import 'server-only';
 
-import path from 'path';
+import crypto from 'crypto';
 import fs from 'fs/promises';
-import { getConfig } from './config';
+import path from 'path';
 import {
+  RunTrigger,
   ensureSchema,
   getVideoByFilename,
   getVideoByHash,
   listPendingUploads,
-  listReadyToUpload,
   listVideos,
-  markVideoAsProcessing,
-  markVideoAsUploaded,
-  recordVideoError,
-  upsertVideoRecord,
+  UploadSession,
+  VideoRecord,
 } from './db';
-import { listVideoFiles, VideoFileDescriptor } from './fs-utils';
-import { buildVideoMetadata, persistMetadataSnapshot, VideoMetadata } from './metadata';
-import { augmentMetadataWithTrending } from './trending';
+import { buildVideoDescriptor, VideoFileDescriptor } from './fs-utils';
+import { ChannelConfig, getChannel, getChannels, resolveChannelFilepath } from './channels';
+import { toVideoMetadata, VideoMetadata } from './metadata';
+import { formatMetadataIssue, MetadataFileError } from './sidecar';
 import { generateThumbnail } from './thumbnails';
-import { applyWatermark } from './watermark';
-import { uploadShort } from './youtube';
-import { computeNextSchedule } from './scheduler';
-import { sendUploadNotification } from './notifications';
-import { refreshAnalyticsForVideos } from './analytics';
+import { prepareVideoForUpload } from './processing';
+import { uploadFingerprint } from './youtube';
+import { needsReconnect } from './youtube-auth';
+import { estimateUploadCost, getQuotaUsage } from './quota';
+import { UploadInterruptedError } from './resumable-upload';
+import { computeNextSchedule, countOpenSlots } from './scheduler';
+import { inspectVideoFile, MediaInfo } from './media';
+import { PermanentUploadError, planRetry } from './retry';
+import { RunLeaseHandle, withRunLease } from './run-lock';
+import { createRunRecorder, RunRecorder } from './run-history';
+import { AgentServices, liveAgentServices } from './agent-services';
+import { createDryRunServices, DryRunPlan } from './dry-run';
 import { logger } from './logger';
 
 export interface AgentRunResult {
+  runId: string;
   scanned: number;
   scheduled: number;
   uploaded: number;
   failed: number;
+  dead: number;
+  rejected: number;
+  deferred: number;
   errors: string[];
+  rejections: string[];
+  /** Problems that need attention but did not fail the run, such as videos left without a slot. */
+  warnings: string[];
+  /** Only set for dry runs: what the run would have written and sent. */
+  plan?: DryRunPlan;
+}
+
+/**
+ * A rejection stands until something that decided it changes: the video file, or for a
+ * rejection over invalid metadata, the metadata file that failed validation.
+ */
+async function isRejectionCurrent(existing: VideoRecord, video: VideoFileDescriptor): Promise<boolean> {
+  if (existing.fileHash !== video.hash || existing.fileSize !== video.size) return false;
+  const metadataFile = existing.metadata?.invalidMetadataFile;
+  if (typeof metadataFile !== 'string') return true;
+  try {
+    return (await fs.stat(metadataFile)).mtime <= existing.updatedAt;
+  } catch {
+    // The file was removed or renamed, so the video gets another look.
+    return false;
+  }
 }
 
-async function resolveVideoDescriptor(filename: string): Promise<VideoFileDescriptor | null> {
-  const config = getConfig();
-  const filepath = path.join(config.contentDir, filename);
+/** A saved session is only resumable if the exact file it was uploading is still on disk. */
+async function findResumableSession(record: VideoRecord): Promise<UploadSession | null> {
+  const session = record.uploadSession;
+  if (!session) return null;
+  try {
+    const stat = await fs.stat(session.videoPath);
+    if (stat.size === session.totalBytes) return session;
+  } catch {
+    // Temp files do not survive a new serverless instance; fall through and start over.
+  }
+  logger.info('Saved upload session no longer matches a file on disk, starting over', {
+    filename: record.filename,
+    videoPath: session.videoPath,
+  });
+  return null;
+}
+
+async function resolveVideoDescriptor(record: VideoRecord): Promise<VideoFileDescriptor | null> {
+  const channel = getChannel(record.channelId);
+  const filepath = resolveChannelFilepath(channel, record.filename);
   try {
     const stat = await fs.stat(filepath);
     if (!stat.isFile()) return null;
-    return {
-      filepath,
-      filename,
-      hash: null,
-      size: stat.size,
-      durationSeconds: null,
-    };
+    return buildVideoDescriptor(channel, filepath, { hash: null, size: stat.size });
   } catch (error: unknown) {
     if (typeof error === 'object' && error !== null && 'code' in error) {
       const code = (error as { code?: string }).code;
@@ -56,76 +98,238 @@ async function resolveVideoDescriptor(filename: string): Promise<VideoFileDescri
   }
 }
 
-function toVideoMetadata(metadata: Record<string, unknown> | null): VideoMetadata | null {
-  if (!metadata) return null;
-  return {
-    title: (metadata.title as string | undefined) ?? 'Untitled Short',
-    description: (metadata.description as string | undefined) ?? '',
-    tags: (metadata.tags as string[] | undefined) ?? [],
-    hashtags: (metadata.hashtags as string[] | undefined) ?? [],
-    language: (metadata.language as string | undefined) ?? 'en',
-    scheduleHint: metadata.scheduleHint as string | undefined,
-    thumbnailText: metadata.thumbnailText as string | undefined,
-    translatedDescriptions: metadata.translatedDescriptions as Record<string, string> | undefined,
-    generatedByAi: metadata.generatedByAi as boolean | undefined,
-    sourceMetadataPath: (metadata.sourceMetadataPath as string | null | undefined) ?? null,
-  };
+async function listAllChannelVideos(services: AgentServices): Promise<VideoFileDescriptor[]> {
+  const videos: VideoFileDescriptor[] = [];
+  for (const channel of getChannels()) {
+    videos.push(...(await services.listVideoFiles(channel)));
+  }
+  return videos;
 }
 
-export async function runAgent(): Promise<AgentRunResult> {
+async function describeVideoFiles(
+  services: AgentServices,
+  filepaths: string[],
+): Promise<VideoFileDescriptor[]> {
+  const videos: VideoFileDescriptor[] = [];
+  for (const filepath of filepaths) {
+    const video = await services.describeVideoFile(filepath).catch((error: unknown) => {
+      logger.warn('Skipping unreadable video file', { filepath, error });
+      return null;
+    });
+    if (video) videos.push(video);
+  }
+  return videos;
+}
+
+export interface AgentRunOptions {
+  trigger?: RunTrigger;
+  /** Aborting stops the run before the next upload; an upload already in flight finishes. */
+  signal?: AbortSignal;
+  /**
+   * Aborting cuts off an upload in flight after its current chunk. The session is kept, so the
+   * next run resumes it.
+   */
+  uploadSignal?: AbortSignal;
+  /** Restricts the scan to these paths (watch mode) instead of listing the whole content folder. */
+  files?: string[];
+  /**
+   * Walks the whole pipeline, including metadata, watermark and thumbnail generation, but
+   * records YouTube calls, notifications and database writes instead of performing them.
+   */
+  dryRun?: boolean;
+}
+
+export async function runAgent(options: AgentRunOptions = {}): Promise<AgentRunResult> {
   await ensureSchema();
+  if (options.dryRun) {
+    return runDryRun(options);
+  }
+  return withRunLease(async (lease) => {
+    const recorder = createRunRecorder(lease.runId, options.trigger ?? 'api');
+    await recorder.flush();
+    try {
+      const result = await executeRun(lease, recorder, options, liveAgentServices);
+      await recorder.finish({ ...result });
+      return result;
+    } catch (error) {
+      await recorder.fail(error);
+      throw error;
+    }
+  });
+}
+
+// A dry run takes no lease and keeps its history in memory, so it can run beside a live run.
+async function runDryRun(options: AgentRunOptions): Promise<AgentRunResult> {
+  const { services, plan } = createDryRunServices();
+  const lease: RunLeaseHandle = { runId: `dry-run-${crypto.randomUUID()}`, renew: async () => {} };
+  const recorder = createRunRecorder(lease.runId, options.trigger ?? 'api', { persist: false });
+  const result = await executeRun(lease, recorder, options, services);
+  return { ...result, plan: { ...plan(), steps: recorder.steps() } };
+}
+
+async function executeRun(
+  lease: RunLeaseHandle,
+  recorder: RunRecorder,
+  options: AgentRunOptions,
+  services: AgentServices,
+): Promise<AgentRunResult> {
+  const { signal, uploadSignal } = options;
   const result: AgentRunResult = {
+    runId: lease.runId,
     scanned: 0,
     scheduled: 0,
     uploaded: 0,
     failed: 0,
+    dead: 0,
+    rejected: 0,
+    deferred: 0,
     errors: [],
+    rejections: [],
+    warnings: [],
   };
 
-  const config = getConfig();
-  const availableVideos = await listVideoFiles();
+  await recorder.step('recover', null, () => services.recoverStuckUploads(), (outcomes) =>
+    outcomes.length > 0
+      ? outcomes.map((outcome) => `${outcome.filename}: ${outcome.action}`).join(', ')
+      : null,
+  );
+
+  const availableVideos = await recorder.step(
+    'scan',
+    null,
+    () => (options.files ? describeVideoFiles(services, options.files) : listAllChannelVideos(services)),
+    (videos) => `${videos.length} video files`,
+  );
   result.scanned = availableVideos.length;
 
   const videosInDb = await listVideos(200);
   const schedulingState = [...videosInDb];
+  const unscheduled = new Map<string, number>();
 
   for (const video of availableVideos) {
-    const alreadyUploadedByHash = video.hash ? await getVideoByHash(video.hash) : null;
+    if (signal?.aborted) break;
+    const alreadyUploadedByHash = video.hash ? await getVideoByHash(video.hash, video.channelId) : null;
     if (alreadyUploadedByHash && alreadyUploadedByHash.youtubeVideoId) {
       logger.info('Skipping already uploaded hash', { video: video.filename });
       continue;
     }
 
-    const existing = await getVideoByFilename(video.filename);
+    const existing = await getVideoByFilename(video.filename, video.channelId);
     if (existing && existing.status === 'uploaded') {
       logger.info('Skipping already uploaded video filename', { video: video.filename });
       continue;
     }
 
-    if (existing && existing.status === 'scheduled') {
-      logger.debug('Video already scheduled', { video: video.filename });
+    if (existing && (existing.status === 'scheduled' || existing.status === 'processing')) {
+      logger.debug('Video already queued', { video: video.filename, status: existing.status });
+      continue;
+    }
+
+    if (existing && (existing.status === 'failed' || existing.status === 'dead')) {
+      logger.debug('Video is awaiting retry or requeue', {
+        video: video.filename,
+        status: existing.status,
+      });
+      continue;
+    }
+
+    if (existing?.status === 'rejected' && (await isRejectionCurrent(existing, video))) {
+      logger.debug('Video was rejected and has not changed', { video: video.filename });
+      continue;
+    }
+
+    const inspection = await recorder.step(
+      'inspect',
+      video.filename,
+      () => inspectVideoFile(video),
+      (value) => value.rejection,
+    );
+    const mediaPayload = inspection.media ? { ...inspection.media } : null;
+    if (inspection.rejection) {
+      if (existing?.status !== 'rejected' || existing.error !== inspection.rejection) {
+        await services.upsertVideoRecord({
+          filename: video.filename,
+          channelId: video.channelId,
+          status: 'rejected',
+          error: inspection.rejection,
+          fileHash: video.hash,
+          fileSize: video.size,
+          media: mediaPayload,
+        });
+      }
+      result.rejected += 1;
+      result.rejections.push(`${video.filename}: ${inspection.rejection}`);
+      logger.warn('Video rejected as Shorts-ineligible', {
+        video: video.filename,
+        reason: inspection.rejection,
+      });
       continue;
     }
 
-    const metadata = await buildVideoMetadata(video);
-    const enrichedMetadata = await augmentMetadataWithTrending(metadata);
-    await persistMetadataSnapshot(video, enrichedMetadata);
+    let metadata: VideoMetadata;
+    try {
+      metadata = await recorder.step(
+        'metadata',
+        video.filename,
+        () => services.buildVideoMetadata(inspection.video),
+        (value) => (value.generatedByAi ? 'Generated (no sidecar)' : value.sourceMetadataPath ?? null),
+      );
+    } catch (error) {
+      if (!(error instanceof MetadataFileError)) throw error;
+      // A bad sidecar only holds back its own video; the rest of the scan and the upload queue go on.
+      const reason = `${path.basename(error.filepath)}: ${error.issues.map(formatMetadataIssue).join('; ')}`;
+      await services.upsertVideoRecord({
+        filename: video.filename,
+        channelId: video.channelId,
+        status: 'rejected',
+        metadata: { invalidMetadataFile: error.filepath },
+        error: reason,
+        fileHash: video.hash,
+        fileSize: video.size,
+        media: mediaPayload,
+      });
+      result.rejected += 1;
+      result.rejections.push(`${video.filename}: ${reason}`);
+      logger.warn('Video rejected for invalid metadata', { video: video.filename, reason });
+      continue;
+    }
+    const enrichedMetadata = await recorder.step('trending', video.filename, () =>
+      services.augmentMetadataWithTrending(metadata),
+    );
+    await services.persistMetadataSnapshot(video, enrichedMetadata);
 
-    const nextSchedule = computeNextSchedule(schedulingState);
-    const metadataPayload: Record<string, unknown> = { ...enrichedMetadata };
+    const schedule = await recorder.step(
+      'schedule',
+      video.filename,
+      async () =>
+        computeNextSchedule(schedulingState, getChannel(video.channelId), new Date(), enrichedMetadata),
+      ({ slot, note }) => [slot?.toISOString(), note].filter(Boolean).join(': ') || null,
+    );
+    const nextSchedule = schedule.slot;
+    if (schedule.note) {
+      logger.warn('Schedule hints could not be fully met', { video: video.filename, reason: schedule.note });
+    }
+    const metadataPayload: Record<string, unknown> = {
+      ...enrichedMetadata,
+      scheduleNote: schedule.note ?? undefined,
+    };
 
-    await upsertVideoRecord({
+    await services.upsertVideoRecord({
       filename: video.filename,
+      channelId: video.channelId,
       status: nextSchedule ? 'scheduled' : 'new',
       scheduledAt: nextSchedule,
       metadata: metadataPayload,
+      error: nextSchedule ? null : schedule.note,
       fileHash: video.hash,
       fileSize: video.size,
+      media: mediaPayload,
     });
 
     schedulingState.push({
       id: -1,
       filename: video.filename,
+      channelId: video.channelId,
       status: nextSchedule ? 'scheduled' : 'new',
       fileHash: video.hash,
       fileSize: video.size,
@@ -134,78 +338,219 @@ export async function runAgent(): Promise<AgentRunResult> {
       youtubeVideoId: null,
       metadata: metadataPayload,
       analytics: null,
+      media: mediaPayload,
+      playlistAssignments: [],
+      uploadSession: null,
       error: null,
       retryCount: 0,
+      nextAttemptAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
 
-    result.scheduled += 1;
+    if (nextSchedule) {
+      result.scheduled += 1;
+    } else {
+      unscheduled.set(video.channelId, (unscheduled.get(video.channelId) ?? 0) + 1);
+    }
+  }
+
+  for (const [channelId, count] of unscheduled) {
+    const channel = getChannel(channelId);
+    const warning =
+      `${channel.name}: ${count} ${count === 1 ? 'video has' : 'videos have'} no upload slot in the next ` +
+      `${channel.scheduleHorizonDays} days (${countOpenSlots(schedulingState, channel)} open slots left)`;
+    logger.warn('Upload queue is larger than the schedule allows', { channelId, unscheduled: count });
+    result.warnings.push(warning);
   }
 
-  const queue = await listReadyToUpload(new Date());
+  await lease.renew();
+  const queue = await services.listReadyToUpload(new Date());
   if (queue.length > 0) {
     logger.info('Processing upload queue', { count: queue.length });
   }
 
   for (const record of queue) {
+    if (signal?.aborted) {
+      logger.info('Run interrupted, leaving remaining uploads queued', { runId: result.runId });
+      recorder.skip('upload', record.filename, 'Run interrupted before upload');
+      break;
+    }
+    // A channel removed from the registry only holds back its own videos.
+    let channel: ChannelConfig;
+    try {
+      channel = getChannel(record.channelId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn('Skipping upload for a channel that is not configured', { filename: record.filename, reason });
+      recorder.skip('upload', record.filename, reason);
+      continue;
+    }
+    if (await needsReconnect(record.channelId)) {
+      recorder.skip('upload', record.filename, 'YouTube account needs to be reconnected');
+      continue;
+    }
+    const uploadCost = estimateUploadCost(
+      toVideoMetadata(record.metadata)?.playlists?.length ?? 0,
+      Boolean(record.uploadSession),
+    );
+    const quota = await getQuotaUsage(record.channelId);
+    if (quota.remaining < uploadCost) {
+      logger.info('Deferring upload until the YouTube quota resets', {
+        filename: record.filename,
+        remaining: quota.remaining,
+        required: uploadCost,
+      });
+      recorder.skip(
+        'upload',
+        record.filename,
+        `Deferred: ${quota.remaining} quota units left for ${quota.day} (Pacific), upload needs ${uploadCost}`,
+      );
+      result.deferred += 1;
+      continue;
+    }
+    await lease.renew();
+    const claimed = await services.markVideoAsProcessing(record);
+    if (!claimed) {
+      logger.info('Video already claimed by another run', { filename: record.filename });
+      recorder.skip('upload', record.filename, 'Already claimed by another run');
+      continue;
+    }
+
     try {
-      await markVideoAsProcessing(record.filename);
       const descriptor =
-        availableVideos.find((video) => video.filename === record.filename) ??
-        (await resolveVideoDescriptor(record.filename));
+        availableVideos.find(
+          (video) => video.channelId === record.channelId && video.filename === record.filename,
+        ) ??
+        (await resolveVideoDescriptor(record));
       if (!descriptor) {
-        throw new Error(`Video file not found: ${record.filename}`);
+        throw new PermanentUploadError(`Video file not found: ${record.filename}`);
       }
 
       const metadata = toVideoMetadata(record.metadata);
       if (!metadata) {
-        throw new Error(`Metadata missing for video ${record.filename}`);
+        throw new PermanentUploadError(`Metadata missing for video ${record.filename}`);
       }
 
-      const processedVideoPath = await applyWatermark(descriptor);
-      const thumbnail = await generateThumbnail(descriptor, metadata);
+      const media = (record.media as MediaInfo | null) ?? null;
+      const session = await findResumableSession(record);
+      const processedVideoPath = session
+        ? session.videoPath
+        : await recorder.step('watermark', record.filename, () =>
+            prepareVideoForUpload(descriptor, media),
+          );
+      const thumbnail = await recorder.step(
+        'thumbnail',
+        record.filename,
+        () =>
+          generateThumbnail(
+            { ...descriptor, durationSeconds: descriptor.durationSeconds ?? media?.durationSeconds ?? null },
+            metadata,
+          ),
+        (value) => (value ? `${value.frameSelection.mode} frame at ${value.frameSelection.chosenTime}` : null),
+      );
 
-      const upload = await uploadShort({
-        videoPath: processedVideoPath,
-        thumbnailPath: thumbnail?.thumbnailPath,
-        metadata,
-        scheduleAt: record.scheduledAt,
-        notifySubscribers: config.youtubePrivacyStatus === 'public',
-        language: metadata.language,
-      });
+      const upload = await recorder.step(
+        'upload',
+        record.filename,
+        () =>
+          services.uploadShort({
+            channelId: channel.id,
+            videoPath: processedVideoPath,
+            thumbnailPath: thumbnail?.thumbnailPath,
+            metadata,
+            scheduleAt: record.scheduledAt,
+            notifySubscribers: (metadata.privacyStatus ?? channel.privacyStatus) === 'public',
+            language: metadata.language,
+            session,
+            onSessionUpdate: (next) => services.saveUploadSession(record, next),
+            signal: uploadSignal,
+            fingerprint: uploadFingerprint(record),
+          }),
+        (value) => `YouTube video ${value.videoId}`,
+      );
 
-      if (processedVideoPath !== descriptor.filepath) {
+      // Dry runs keep the processed file so the plan's paths can be inspected.
+      if (!services.dryRun && processedVideoPath !== descriptor.filepath) {
         await fs.unlink(processedVideoPath).catch(() => {});
       }
 
       const uploadedMetadata: Record<string, unknown> = { ...metadata };
-      await markVideoAsUploaded(record.filename, upload.videoId, uploadedMetadata);
-      await sendUploadNotification({
-        filename: record.filename,
-        youtubeVideoId: upload.videoId,
-        title: metadata.title,
-        scheduledFor: upload.scheduledPublishTime,
-        analytics: record.analytics,
-      });
+      if (thumbnail) {
+        uploadedMetadata.thumbnailSelection = thumbnail.frameSelection;
+      }
+      if (upload.localizedLanguages.length > 0) {
+        uploadedMetadata.localizedLanguages = upload.localizedLanguages;
+        uploadedMetadata.localizationsSyncedAt = new Date().toISOString();
+      }
+      await services.markVideoAsUploaded(record, upload.videoId, uploadedMetadata);
+      if (metadata.playlists && metadata.playlists.length > 0) {
+        await recorder.step(
+          'playlist',
+          record.filename,
+          () =>
+            services.syncPlaylistAssignments(record, upload.videoId, metadata.playlists ?? []),
+          (assignments) =>
+            assignments.map((assignment) => `${assignment.playlistId}: ${assignment.status}`).join(', '),
+        );
+      }
+      await recorder.step('notify', record.filename, () =>
+        services.sendUploadNotification(
+          {
+            filename: record.filename,
+            youtubeVideoId: upload.videoId,
+            title: metadata.title,
+            scheduledFor: upload.scheduledPublishTime,
+            analytics: record.analytics,
+          },
+          channel,
+        ),
+      );
 
       result.uploaded += 1;
     } catch (error: unknown) {
+      if (error instanceof UploadInterruptedError) {
+        await services.releaseVideoClaim(record);
+        logger.info('Upload interrupted, progress saved for the next run', {
+          filename: record.filename,
+          offset: error.offset,
+        });
+        await recorder.flush();
+        continue;
+      }
       const errorMessage =
         error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
-      await recordVideoError(record.filename, errorMessage);
+      const decision = planRetry(error, record.retryCount);
+      await services.recordVideoError(record, errorMessage, decision);
       result.failed += 1;
+      if (decision.status === 'dead') {
+        result.dead += 1;
+      }
       result.errors.push(`${record.filename}: ${errorMessage}`);
-      logger.error('Failed to upload video', { filename: record.filename, error: errorMessage });
+      logger.error('Failed to upload video', {
+        filename: record.filename,
+        error: errorMessage,
+        errorKind: decision.kind,
+        status: decision.status,
+        nextAttemptAt: decision.nextAttemptAt,
+      });
     }
+    await recorder.flush();
   }
 
   const pending = await listPendingUploads();
-  await refreshAnalyticsForVideos(await listVideos(100));
+  const recentVideos = await listVideos(100);
+  await services.retryFailedPlaylistAssignments(recentVideos);
+  if (!signal?.aborted) {
+    await recorder.step('analytics', null, () => services.refreshAnalyticsForVideos(recentVideos));
+  }
 
   logger.info('Agent run complete', {
+    runId: result.runId,
     scheduled: result.scheduled,
+    rejected: result.rejected,
     uploaded: result.uploaded,
+    deferred: result.deferred,
     failures: result.failed,
     pending: pending.length,
   });
@@ -1,28 +1,56 @@
 import 'server-only';
 
-import { OpenAI } from 'openai';
 import { getConfig } from './config';
-import { storeAnalytics, VideoRecord } from './db';
-import { fetchVideoAnalytics } from './youtube';
+import { listUploadedVideos, storeAnalytics, VideoRecord } from './db';
+import { getQuotaUsage, quotaCost } from './quota';
+import { generateText } from './llm';
+import { fetchVideosAnalytics, VideoAnalytics, VIDEOS_LIST_BATCH_SIZE } from './youtube';
 import { logger } from './logger';
 
-const client = (() => {
-  const { openAiApiKey } = getConfig();
-  if (!openAiApiKey) return null;
-  return new OpenAI({ apiKey: openAiApiKey });
-})();
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Time between refreshes by video age: hourly on its first day, every 6 hours in its first week, then daily. */
+const REFRESH_CADENCE: { maxAgeHours: number; everyHours: number }[] = [
+  { maxAgeHours: 24, everyHours: 1 },
+  { maxAgeHours: 7 * 24, everyHours: 6 },
+  { maxAgeHours: Infinity, everyHours: 24 },
+];
+
+// Cron runs fire a fixed interval apart, so they reach a video slightly less than one interval after its last fetch.
+const REFRESH_SLACK_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a video's analytics should be fetched now. Videos are refreshed on a cadence that
+ * tapers with age and stop once they are older than `ANALYTICS_LOOKBACK_DAYS`. Age counts from
+ * when the video went public, so scheduled videos are left alone until then.
+ */
+export function isAnalyticsRefreshDue(
+  video: VideoRecord,
+  now = new Date(),
+  lookbackDays = getConfig().analyticsLookbackDays,
+): boolean {
+  if (!video.youtubeVideoId || !video.uploadedAt) return false;
+  const publishedAt = Math.max(video.uploadedAt.getTime(), video.scheduledAt?.getTime() ?? 0);
+  const ageHours = (now.getTime() - publishedAt) / HOUR_MS;
+  if (ageHours < 0 || ageHours > lookbackDays * 24) return false;
+
+  const fetchedAt = typeof video.analytics?.fetchedAt === 'string' ? Date.parse(video.analytics.fetchedAt) : NaN;
+  if (Number.isNaN(fetchedAt)) return true;
+  const { everyHours } = REFRESH_CADENCE.find((step) => ageHours < step.maxAgeHours) ?? REFRESH_CADENCE[0];
+  return now.getTime() - fetchedAt >= everyHours * HOUR_MS - REFRESH_SLACK_MS;
+}
 
 async function generateSuggestions(analytics: Record<string, unknown>): Promise<string | null> {
   const config = getConfig();
-  if (!config.analyticsSuggestImprovements || !client) return null;
+  if (!config.analyticsSuggestImprovements) return null;
   try {
-    const response = await client.responses.create({
-      model: 'gpt-4.1-mini',
-      input: `Provide concise, actionable suggestions (max 3 bullet points) to improve the performance of this YouTube Short based on its metrics.\nMetrics JSON: ${JSON.stringify(
+    const response = await generateText(
+      'analytics',
+      `Provide concise, actionable suggestions (max 3 bullet points) to improve the performance of this YouTube Short based on its metrics.\nMetrics JSON: ${JSON.stringify(
         analytics,
       )}`,
-    });
-    const text = response.output_text?.[0];
+    );
+    const text = response?.text;
     if (!text) return null;
     return text.trim();
   } catch (error) {
@@ -31,23 +59,70 @@ async function generateSuggestions(analytics: Record<string, unknown>): Promise<
   }
 }
 
-export async function refreshAnalyticsForVideos(videos: VideoRecord[]) {
-  const eligible = videos.filter((video) => video.youtubeVideoId);
-  for (const video of eligible) {
+/**
+ * Fetches analytics for the videos that are due (see `isAnalyticsRefreshDue`) and records a
+ * snapshot for each. Returns how many videos were due.
+ */
+export async function refreshAnalyticsForVideos(videos: VideoRecord[], now = new Date()): Promise<number> {
+  const due = videos.filter((video) => isAnalyticsRefreshDue(video, now));
+  const byChannel = new Map<string, VideoRecord[]>();
+  for (const video of due) {
+    byChannel.set(video.channelId, [...(byChannel.get(video.channelId) ?? []), video]);
+  }
+
+  for (const [channelId, channelVideos] of byChannel) {
+    const { remaining } = await getQuotaUsage(channelId);
+    const batches = Math.ceil(channelVideos.length / VIDEOS_LIST_BATCH_SIZE);
+    if (remaining < batches * quotaCost('videos.list')) {
+      logger.warn('Skipping analytics refresh, YouTube quota exhausted', { channel: channelId, remaining });
+      continue;
+    }
+
+    let analyticsById: Map<string, VideoAnalytics>;
     try {
-      const analytics = await fetchVideoAnalytics(video.youtubeVideoId!);
+      analyticsById = await fetchVideosAnalytics(
+        channelId,
+        channelVideos.map((video) => video.youtubeVideoId!),
+      );
+    } catch (error) {
+      logger.warn('Failed to refresh analytics', { channel: channelId, error });
+      continue;
+    }
+    const fetchedAt = new Date();
+
+    for (const video of channelVideos) {
+      const analytics = analyticsById.get(video.youtubeVideoId!);
       if (!analytics) continue;
-      const data: Record<string, unknown> = { ...analytics };
-      const suggestions = await generateSuggestions({
-        ...analytics,
-        title: video.metadata?.title,
-      });
-      if (suggestions) {
-        data.suggestions = suggestions;
+      try {
+        // When the counts were read, for view velocity and the refresh cadence.
+        const data: Record<string, unknown> = { ...analytics, fetchedAt: fetchedAt.toISOString() };
+        // Young videos refresh hourly; suggestions only need redoing about once a day.
+        const previous = video.analytics;
+        const suggestedAt = typeof previous?.suggestedAt === 'string' ? Date.parse(previous.suggestedAt) : NaN;
+        if (typeof previous?.suggestions === 'string' && fetchedAt.getTime() - suggestedAt < 24 * HOUR_MS) {
+          data.suggestions = previous.suggestions;
+          data.suggestedAt = previous.suggestedAt;
+        } else {
+          const suggestions = await generateSuggestions({
+            ...analytics,
+            title: video.metadata?.title,
+          });
+          if (suggestions) {
+            data.suggestions = suggestions;
+            data.suggestedAt = fetchedAt.toISOString();
+          }
+        }
+        await storeAnalytics(video.id, data, fetchedAt);
+      } catch (error) {
+        logger.warn('Failed to refresh analytics', { video: video.youtubeVideoId, error });
       }
-      await storeAnalytics(video.id, data);
-    } catch (error) {
-      logger.warn('Failed to refresh analytics', { video: video.youtubeVideoId, error });
     }
   }
+  return due.length;
+}
+
+export async function refreshRecentAnalytics(now = new Date()) {
+  const refreshed = await refreshAnalyticsForVideos(await listUploadedVideos(), now);
+  logger.info('Analytics refresh complete', { videos: refreshed });
+  return refreshed;
 }
@@ -0,0 +1,184 @@
+import 'server-only';
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { AgentConfig, getConfig, PRIVACY_STATUSES, SCHEDULE_MODES } from './config';
+import {
+  BlackoutDateRange,
+  parseBlackoutDates,
+  parseUploadWindows,
+  WeeklyUploadWindows,
+} from './schedule-rules';
+
+export const DEFAULT_CHANNEL_ID = 'default';
+
+const channelEntrySchema = z.object({
+  name: z.string().optional(),
+  youtubeChannelId: z.string().optional(),
+  youtubeClientId: z.string().optional(),
+  youtubeClientSecret: z.string().optional(),
+  youtubeRefreshToken: z.string().optional(),
+  contentDir: z.string().optional(),
+  timezone: z.string().optional(),
+  uploadWindows: z
+    .union([z.string(), z.array(z.string()), z.record(z.string(), z.union([z.string(), z.array(z.string())]))])
+    .optional(),
+  maxDailyUploads: z.coerce.number().int().min(0).optional(),
+  blackoutDates: z.union([z.string(), z.array(z.string())]).optional(),
+  minUploadGapMinutes: z.coerce.number().min(0).optional(),
+  scheduleJitterMinutes: z.coerce.number().min(0).optional(),
+  scheduleHorizonDays: z.coerce.number().int().positive().optional(),
+  scheduleMode: z.enum(SCHEDULE_MODES).optional(),
+  privacyStatus: z.enum(PRIVACY_STATUSES).optional(),
+  categoryId: z.string().optional(),
+  playlistId: z.string().optional(),
+  notificationChannel: z.enum(['email', 'discord', 'telegram', 'none']).optional(),
+  notificationEmail: z.string().email().optional(),
+  notificationDiscordWebhook: z.string().optional(),
+  notificationTelegramChatId: z.string().optional(),
+});
+
+const registrySchema = z.record(
+  z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Channel ids may only contain letters, digits, - and _'),
+  channelEntrySchema,
+);
+
+type ChannelEntry = z.infer<typeof channelEntrySchema>;
+
+export interface ChannelConfig {
+  id: string;
+  name: string;
+  youtubeChannelId?: string;
+  youtubeClientId?: string;
+  youtubeClientSecret?: string;
+  youtubeRefreshToken?: string;
+  contentDir: string;
+  timezone: string;
+  uploadWindows: WeeklyUploadWindows;
+  maxDailyUploads: number;
+  blackoutDates: BlackoutDateRange[];
+  minUploadGapMinutes: number;
+  scheduleJitterMinutes: number;
+  /** How many days ahead the scheduler looks for a free slot. */
+  scheduleHorizonDays: number;
+  /** `performance` moves each day's windows to the hours the channel's past uploads did best at. */
+  scheduleMode: AgentConfig['scheduleMode'];
+  privacyStatus: AgentConfig['youtubePrivacyStatus'];
+  categoryId: string;
+  playlistId?: string;
+  notificationChannel: AgentConfig['notificationChannel'];
+  notificationEmail?: string;
+  notificationDiscordWebhook?: string;
+  notificationTelegramChatId?: string;
+}
+
+let cachedChannels: ChannelConfig[] | null = null;
+
+function resolvePath(value: string): string {
+  return path.isAbsolute(value) ? value : path.join(process.cwd(), value);
+}
+
+// Every field a channel leaves out falls back to the global environment configuration.
+function toChannelConfig(id: string, entry: ChannelEntry, config: AgentConfig): ChannelConfig {
+  let uploadWindows: WeeklyUploadWindows;
+  let blackoutDates: BlackoutDateRange[];
+  try {
+    uploadWindows = parseUploadWindows(entry.uploadWindows ?? config.uploadWindows);
+    blackoutDates = parseBlackoutDates(entry.blackoutDates ?? config.blackoutDates);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid schedule rules for channel ${id}: ${message}`);
+  }
+
+  return {
+    id,
+    name: entry.name ?? id,
+    youtubeChannelId: entry.youtubeChannelId ?? (id === DEFAULT_CHANNEL_ID ? config.youtubeChannelId : undefined),
+    youtubeClientId: entry.youtubeClientId ?? config.youtubeClientId,
+    youtubeClientSecret: entry.youtubeClientSecret ?? config.youtubeClientSecret,
+    youtubeRefreshToken:
+      entry.youtubeRefreshToken ?? (id === DEFAULT_CHANNEL_ID ? config.youtubeRefreshToken : undefined),
+    contentDir: resolvePath(entry.contentDir ?? config.contentDir),
+    timezone: entry.timezone ?? config.timezone,
+    uploadWindows,
+    maxDailyUploads: entry.maxDailyUploads ?? config.maxDailyUploads,
+    blackoutDates,
+    minUploadGapMinutes: entry.minUploadGapMinutes ?? config.minUploadGapMinutes,
+    scheduleJitterMinutes: entry.scheduleJitterMinutes ?? config.scheduleJitterMinutes,
+    scheduleHorizonDays: entry.scheduleHorizonDays ?? config.scheduleHorizonDays,
+    scheduleMode: entry.scheduleMode ?? config.scheduleMode,
+    privacyStatus: entry.privacyStatus ?? config.youtubePrivacyStatus,
+    categoryId: entry.categoryId ?? config.youtubeCategoryId,
+    playlistId: entry.playlistId ?? config.youtubePlaylistId,
+    notificationChannel: entry.notificationChannel ?? config.notificationChannel,
+    notificationEmail: entry.notificationEmail ?? config.notificationEmail,
+    notificationDiscordWebhook: entry.notificationDiscordWebhook ?? config.notificationDiscordWebhook,
+    notificationTelegramChatId: entry.notificationTelegramChatId ?? config.notificationTelegramChatId,
+  };
+}
+
+export function getChannels(): ChannelConfig[] {
+  if (cachedChannels) return cachedChannels;
+
+  const config = getConfig();
+  if (!config.channelsFile) {
+    cachedChannels = [toChannelConfig(DEFAULT_CHANNEL_ID, {}, config)];
+    return cachedChannels;
+  }
+
+  const registryPath = resolvePath(config.channelsFile);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(registryPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Unable to read channel registry ${registryPath}: ${message}`);
+  }
+
+  const parsed = registrySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid channel registry ${registryPath}: ${parsed.error.message}`);
+  }
+  const entries = Object.entries(parsed.data);
+  if (entries.length === 0) {
+    throw new Error(`Channel registry ${registryPath} does not define any channels`);
+  }
+
+  cachedChannels = entries.map(([id, entry]) => toChannelConfig(id, entry, config));
+  return cachedChannels;
+}
+
+/**
+ * Looks up a channel by id. Records created before the registry existed carry the
+ * `default` channel id, which resolves to the environment configuration when the
+ * registry does not define it.
+ */
+export function getChannel(channelId: string): ChannelConfig {
+  const channel = getChannels().find((candidate) => candidate.id === channelId);
+  if (channel) return channel;
+  if (channelId === DEFAULT_CHANNEL_ID) {
+    return toChannelConfig(DEFAULT_CHANNEL_ID, {}, getConfig());
+  }
+  throw new Error(`Unknown channel: ${channelId}`);
+}
+
+/**
+ * Record filenames are relative to the channel's content folder; videos are keyed by channel and
+ * filename, so two channels can hold the same relative path.
+ */
+export function resolveChannelFilepath(channel: ChannelConfig, filename: string): string {
+  return path.join(channel.contentDir, filename);
+}
+
+/** Returns the channel whose content folder most specifically contains the file. */
+export function findChannelForPath(filepath: string): ChannelConfig | null {
+  const matches = getChannels().filter((channel) => {
+    const relative = path.relative(channel.contentDir, filepath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+  if (matches.length === 0) return null;
+  return matches.reduce((best, channel) =>
+    channel.contentDir.length > best.contentDir.length ? channel : best,
+  );
+}
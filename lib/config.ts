@@ -4,12 +4,15 @@ import path from 'path';
 import { z } from 'zod';
 
 const WATERMARK_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const;
-const PRIVACY_STATUSES = ['private', 'public', 'unlisted'] as const;
+export const PRIVACY_STATUSES = ['private', 'public', 'unlisted'] as const;
 const NOTIFICATION_CHANNELS = ['email', 'discord', 'telegram', 'none'] as const;
+const REFRAME_MODES = ['crop', 'blur', 'letterbox'] as const;
+export const SCHEDULE_MODES = ['windows', 'performance'] as const;
 
 type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
-type PrivacyStatus = (typeof PRIVACY_STATUSES)[number];
+export type PrivacyStatus = (typeof PRIVACY_STATUSES)[number];
 type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+type ReframeMode = (typeof REFRAME_MODES)[number];
 
 const watermarkPositionEnv = (process.env.WATERMARK_POSITION ?? '').toLowerCase();
 const defaultWatermarkPosition: WatermarkPosition = WATERMARK_POSITIONS.includes(
@@ -32,12 +35,34 @@ const defaultNotificationChannel: NotificationChannel = NOTIFICATION_CHANNELS.in
   ? (notificationChannelEnv as NotificationChannel)
   : 'none';
 
+const reframeModeEnv = (process.env.REFRAME_MODE ?? '').toLowerCase();
+const defaultReframeMode: ReframeMode = REFRAME_MODES.includes(reframeModeEnv as ReframeMode)
+  ? (reframeModeEnv as ReframeMode)
+  : 'blur';
+
 const defaultTempDir = process.env.AGENT_TEMP_DIR
   ?? (process.env.VERCEL ? path.join('/tmp', 'agent-temp') : path.join(process.cwd(), '.agent-temp'));
 
 const defaultDataStore = process.env.AGENT_DATA_STORE
   ?? (process.env.VERCEL ? path.join('/tmp', 'agent-data.json') : path.join(process.cwd(), '.agent-data.json'));
 
+const defaultHashCacheFile = process.env.HASH_CACHE_FILE
+  ?? (process.env.VERCEL ? path.join('/tmp', 'agent-hash-cache.json') : path.join(process.cwd(), '.agent-hash-cache.json'));
+
+const defaultLlmCacheDir = process.env.LLM_CACHE_DIR
+  ?? (process.env.VERCEL ? path.join('/tmp', 'agent-llm-cache') : path.join(process.cwd(), '.agent-llm-cache'));
+
+// `z.coerce.boolean()` reads every non-empty string as true, "false" included.
+const envFlag = (defaultValue: boolean) =>
+  z
+    .string()
+    .optional()
+    .transform((value) =>
+      value === undefined || value.trim() === ''
+        ? defaultValue
+        : ['true', '1', 'yes'].includes(value.trim().toLowerCase()),
+    );
+
 const configSchema = z.object({
   contentDir: z
     .string()
@@ -51,11 +76,30 @@ const configSchema = z.object({
   dataStore: z
     .string()
     .default(defaultDataStore),
+  hashCacheFile: z
+    .string()
+    .default(defaultHashCacheFile),
   youtubeClientId: z.string().optional(),
   youtubeClientSecret: z.string().optional(),
   youtubeRefreshToken: z.string().optional(),
   youtubeChannelId: z.string().optional(),
+  youtubeOAuthRedirectUri: z.string().url().optional(),
+  tokenEncryptionKey: z.string().min(16).optional(),
   openAiApiKey: z.string().optional(),
+  llmProvider: z.enum(['openai', 'openai-compatible']).default('openai'),
+  llmBaseUrl: z.string().url().optional(),
+  llmApiKey: z.string().optional(),
+  llmModel: z.string().default('gpt-4.1-mini'),
+  llmModelMetadata: z.string().optional(),
+  llmModelTranslation: z.string().optional(),
+  llmModelTrending: z.string().optional(),
+  llmModelAnalytics: z.string().optional(),
+  llmTimeoutSeconds: z.coerce.number().positive().default(60),
+  llmMaxRetries: z.coerce.number().int().min(0).default(2),
+  llmCacheDir: z.string().default(defaultLlmCacheDir),
+  llmCacheTtlDays: z.coerce.number().min(0).default(30),
+  llmInputCostPerMillion: z.coerce.number().min(0).optional(),
+  llmOutputCostPerMillion: z.coerce.number().min(0).optional(),
   notificationEmail: z.string().email().optional(),
   notificationSmtpHost: z.string().optional(),
   notificationSmtpPort: z.coerce.number().optional(),
@@ -69,6 +113,11 @@ const configSchema = z.object({
     .string()
     .default(process.env.UPLOAD_WINDOWS ?? '09:00,12:00,18:00'),
   maxDailyUploads: z.coerce.number().default(Number(process.env.MAX_DAILY_UPLOADS ?? 3)),
+  blackoutDates: z.string().default(''),
+  minUploadGapMinutes: z.coerce.number().min(0).default(0),
+  scheduleJitterMinutes: z.coerce.number().min(0).default(0),
+  scheduleHorizonDays: z.coerce.number().int().positive().default(14),
+  scheduleMode: z.enum(SCHEDULE_MODES).default('windows'),
   watermarkImage: z.string().optional(),
   watermarkPosition: z
     .enum(['top-left', 'top-right', 'bottom-left', 'bottom-right'])
@@ -97,6 +146,36 @@ const configSchema = z.object({
     .enum(['email', 'discord', 'telegram', 'none'])
     .default(defaultNotificationChannel),
   youtubePlaylistId: z.string().optional(),
+  channelsFile: z.string().optional(),
+  maxUploadAttempts: z.coerce.number().int().min(1).default(5),
+  uploadChunkSizeMb: z.coerce.number().positive().default(8),
+  processingTimeoutMinutes: z.coerce.number().positive().default(60),
+  youtubeDailyQuota: z.coerce.number().int().positive().default(10_000),
+  youtubeUploadQuotaCost: z.coerce.number().int().positive().default(1600),
+  retryBackoffBaseMinutes: z.coerce.number().positive().default(15),
+  retryBackoffMultiplier: z.coerce.number().min(1).default(2),
+  retryBackoffMaxMinutes: z.coerce.number().positive().default(24 * 60),
+  shortsMaxDurationSeconds: z.coerce.number().positive().default(180),
+  enableVideoProcessing: envFlag(false),
+  reframeMode: z.enum(['crop', 'blur', 'letterbox']).default(defaultReframeMode),
+  outputWidth: z.coerce.number().int().positive().default(1080),
+  outputHeight: z.coerce.number().int().positive().default(1920),
+  targetVideoBitrateKbps: z.coerce.number().positive().default(8000),
+  targetAudioBitrateKbps: z.coerce.number().positive().default(192),
+  maxOutputDurationSeconds: z.coerce.number().positive().optional(),
+  thumbnailTemplate: z.string().default('default'),
+  thumbnailTemplatesFile: z.string().optional(),
+  thumbnailFontFile: z.string().optional(),
+  thumbnailBadgeImage: z.string().optional(),
+  thumbnailFrameTime: z.string().default('00:00:02'),
+  thumbnailFrameSelection: z.enum(['auto', 'fixed']).default('auto'),
+  thumbnailCandidateFrames: z.coerce.number().int().min(1).default(8),
+  runLeaseTtlMinutes: z.coerce.number().positive().default(30),
+  agentCronSchedule: z.string().default('*/15 * * * *'),
+  analyticsCronSchedule: z.string().default('0 */6 * * *'),
+  daemonShutdownTimeoutSeconds: z.coerce.number().positive().default(600),
+  enableWatchMode: envFlag(false),
+  watchStableSeconds: z.coerce.number().positive().default(10),
 });
 
 export type AgentConfig = z.infer<typeof configSchema>;
@@ -115,7 +194,23 @@ export function getConfig(): AgentConfig {
     youtubeClientSecret: process.env.YOUTUBE_CLIENT_SECRET,
     youtubeRefreshToken: process.env.YOUTUBE_REFRESH_TOKEN,
     youtubeChannelId: process.env.YOUTUBE_CHANNEL_ID,
+    youtubeOAuthRedirectUri: process.env.YOUTUBE_OAUTH_REDIRECT_URI,
+    tokenEncryptionKey: process.env.TOKEN_ENCRYPTION_KEY,
     openAiApiKey: process.env.OPENAI_API_KEY,
+    llmProvider: process.env.LLM_PROVIDER,
+    llmBaseUrl: process.env.LLM_BASE_URL,
+    llmApiKey: process.env.LLM_API_KEY,
+    llmModel: process.env.LLM_MODEL,
+    llmModelMetadata: process.env.LLM_MODEL_METADATA,
+    llmModelTranslation: process.env.LLM_MODEL_TRANSLATION,
+    llmModelTrending: process.env.LLM_MODEL_TRENDING,
+    llmModelAnalytics: process.env.LLM_MODEL_ANALYTICS,
+    llmTimeoutSeconds: process.env.LLM_TIMEOUT_SECONDS,
+    llmMaxRetries: process.env.LLM_MAX_RETRIES,
+    llmCacheDir: process.env.LLM_CACHE_DIR,
+    llmCacheTtlDays: process.env.LLM_CACHE_TTL_DAYS,
+    llmInputCostPerMillion: process.env.LLM_INPUT_COST_PER_MILLION,
+    llmOutputCostPerMillion: process.env.LLM_OUTPUT_COST_PER_MILLION,
     notificationEmail: process.env.NOTIFICATION_EMAIL,
     notificationSmtpHost: process.env.NOTIFICATION_SMTP_HOST,
     notificationSmtpPort: process.env.NOTIFICATION_SMTP_PORT,
@@ -127,6 +222,11 @@ export function getConfig(): AgentConfig {
     timezone: process.env.TIMEZONE ?? process.env.TZ,
     uploadWindows: process.env.UPLOAD_WINDOWS,
     maxDailyUploads: process.env.MAX_DAILY_UPLOADS,
+    blackoutDates: process.env.BLACKOUT_DATES,
+    minUploadGapMinutes: process.env.MIN_UPLOAD_GAP_MINUTES,
+    scheduleJitterMinutes: process.env.SCHEDULE_JITTER_MINUTES,
+    scheduleHorizonDays: process.env.SCHEDULE_HORIZON_DAYS,
+    scheduleMode: process.env.SCHEDULE_MODE,
     watermarkImage: process.env.WATERMARK_IMAGE,
     enableWatermark: process.env.ENABLE_WATERMARK,
     watermarkPosition: process.env.WATERMARK_POSITION,
@@ -138,8 +238,39 @@ export function getConfig(): AgentConfig {
     youtubePrivacyStatus: process.env.YOUTUBE_PRIVACY_STATUS,
     notificationChannel: process.env.NOTIFICATION_CHANNEL,
     youtubePlaylistId: process.env.YOUTUBE_PLAYLIST_ID,
+    channelsFile: process.env.CHANNELS_FILE,
+    maxUploadAttempts: process.env.MAX_UPLOAD_ATTEMPTS,
+    uploadChunkSizeMb: process.env.UPLOAD_CHUNK_SIZE_MB,
+    processingTimeoutMinutes: process.env.PROCESSING_TIMEOUT_MINUTES,
+    youtubeDailyQuota: process.env.YOUTUBE_DAILY_QUOTA,
+    youtubeUploadQuotaCost: process.env.YOUTUBE_UPLOAD_QUOTA_COST,
+    retryBackoffBaseMinutes: process.env.RETRY_BACKOFF_BASE_MINUTES,
+    retryBackoffMultiplier: process.env.RETRY_BACKOFF_MULTIPLIER,
+    retryBackoffMaxMinutes: process.env.RETRY_BACKOFF_MAX_MINUTES,
+    shortsMaxDurationSeconds: process.env.SHORTS_MAX_DURATION_SECONDS,
+    enableVideoProcessing: process.env.ENABLE_VIDEO_PROCESSING,
+    reframeMode: process.env.REFRAME_MODE,
+    outputWidth: process.env.OUTPUT_WIDTH,
+    outputHeight: process.env.OUTPUT_HEIGHT,
+    targetVideoBitrateKbps: process.env.TARGET_VIDEO_BITRATE_KBPS,
+    targetAudioBitrateKbps: process.env.TARGET_AUDIO_BITRATE_KBPS,
+    maxOutputDurationSeconds: process.env.MAX_OUTPUT_DURATION_SECONDS,
+    thumbnailTemplate: process.env.THUMBNAIL_TEMPLATE,
+    thumbnailTemplatesFile: process.env.THUMBNAIL_TEMPLATES_FILE,
+    thumbnailFontFile: process.env.THUMBNAIL_FONT_FILE,
+    thumbnailBadgeImage: process.env.THUMBNAIL_BADGE_IMAGE,
+    thumbnailFrameTime: process.env.THUMBNAIL_FRAME_TIME,
+    thumbnailFrameSelection: process.env.THUMBNAIL_FRAME_SELECTION,
+    thumbnailCandidateFrames: process.env.THUMBNAIL_CANDIDATE_FRAMES,
+    runLeaseTtlMinutes: process.env.RUN_LEASE_TTL_MINUTES,
+    agentCronSchedule: process.env.AGENT_CRON_SCHEDULE,
+    analyticsCronSchedule: process.env.ANALYTICS_CRON_SCHEDULE,
+    daemonShutdownTimeoutSeconds: process.env.DAEMON_SHUTDOWN_TIMEOUT_SECONDS,
+    enableWatchMode: process.env.ENABLE_WATCH_MODE,
+    watchStableSeconds: process.env.WATCH_STABLE_SECONDS,
     tempDir: process.env.AGENT_TEMP_DIR,
     dataStore: process.env.AGENT_DATA_STORE,
+    hashCacheFile: process.env.HASH_CACHE_FILE,
   });
 
   if (!parsed.success) {
@@ -150,14 +281,6 @@ export function getConfig(): AgentConfig {
   return cachedConfig;
 }
 
-export function getUploadWindowSlots(): string[] {
-  const config = getConfig();
-  return config.uploadWindows
-    .split(',')
-    .map((s) => s.trim())
-    .filter(Boolean);
-}
-
 export const SUPPORTED_TRANSLATION_LANGS = () =>
   getConfig()
     .translationLanguages.split(',')
@@ -0,0 +1,213 @@
+import 'server-only';
+
+import cron from 'node-cron';
+import { AgentRunOptions, runAgent } from './agent';
+import { refreshRecentAnalytics } from './analytics';
+import { getConfig } from './config';
+import { DAEMON_HEARTBEAT_INTERVAL_MS, DaemonStatus, ensureSchema, saveDaemonStatus } from './db';
+import { logger } from './logger';
+import { RunInProgressError, withRunLease } from './run-lock';
+import { ContentWatcher, watchContentDir } from './watcher';
+
+const WATCH_RETRY_DELAY_MS = 30_000;
+/** After the shutdown timeout, how long a cut-off upload gets to save its session. */
+const UPLOAD_ABORT_GRACE_MS = 30_000;
+
+export interface AgentDaemon {
+  stop: () => Promise<void>;
+}
+
+async function runScheduledAgent(signals: Pick<AgentRunOptions, 'signal' | 'uploadSignal'>) {
+  try {
+    const result = await runAgent({ trigger: 'cron', ...signals });
+    logger.info('Scheduled agent run finished', {
+      runId: result.runId,
+      scheduled: result.scheduled,
+      uploaded: result.uploaded,
+      failed: result.failed,
+    });
+  } catch (error) {
+    if (error instanceof RunInProgressError) {
+      logger.info('Skipping scheduled agent run, another run is in progress', {
+        activeRunId: error.activeRunId,
+      });
+      return;
+    }
+    logger.error('Scheduled agent run failed', { error });
+  }
+}
+
+// Agent runs refresh analytics too, so the refresh takes the run lease rather than racing one
+// and writing the same snapshots twice.
+async function runScheduledAnalytics() {
+  try {
+    await withRunLease(() => refreshRecentAnalytics());
+  } catch (error) {
+    if (error instanceof RunInProgressError) {
+      logger.info('Skipping scheduled analytics refresh, an agent run is in progress', {
+        activeRunId: error.activeRunId,
+      });
+      return;
+    }
+    logger.error('Scheduled analytics refresh failed', { error });
+  }
+}
+
+export async function startAgentDaemon(): Promise<AgentDaemon> {
+  const config = getConfig();
+  const schedules: [string, string][] = [
+    ['AGENT_CRON_SCHEDULE', config.agentCronSchedule],
+    ['ANALYTICS_CRON_SCHEDULE', config.analyticsCronSchedule],
+  ];
+  for (const [name, expression] of schedules) {
+    if (!cron.validate(expression)) {
+      throw new Error(`Invalid ${name} cron expression: ${expression}`);
+    }
+  }
+
+  await ensureSchema();
+
+  // Stopping ends runs before their next upload; aborting uploads is the last resort once the
+  // shutdown timeout has passed.
+  const stopping = new AbortController();
+  const abortUploads = new AbortController();
+  const runSignals = { signal: stopping.signal, uploadSignal: abortUploads.signal };
+  const inFlight = new Set<Promise<void>>();
+  const startedAt = new Date();
+  let state: DaemonStatus['state'] = 'running';
+
+  const track = (job: () => Promise<void>) => {
+    const promise = job().finally(() => {
+      inFlight.delete(promise);
+      void publishStatus();
+    });
+    inFlight.add(promise);
+    return promise;
+  };
+
+  const taskOptions = { timezone: config.timezone, noOverlap: true };
+  const agentTask = cron.schedule(
+    config.agentCronSchedule,
+    () => track(() => runScheduledAgent(runSignals)),
+    { ...taskOptions, name: 'agent-run' },
+  );
+  const analyticsTask = cron.schedule(
+    config.analyticsCronSchedule,
+    () => track(runScheduledAnalytics),
+    { ...taskOptions, name: 'analytics-refresh' },
+  );
+
+  // Stable files from the watcher are batched into one run; a batch that hits another
+  // run's lease goes back into the queue and is retried shortly after.
+  const watchedFiles = new Set<string>();
+  let watchRun: Promise<void> | null = null;
+  let watchRetry: NodeJS.Timeout | null = null;
+
+  const ingestWatchedFiles = () => {
+    if (watchRun || watchedFiles.size === 0 || state !== 'running') return;
+    const files = [...watchedFiles];
+    watchedFiles.clear();
+    watchRun = track(async () => {
+      try {
+        const result = await runAgent({ trigger: 'watch', ...runSignals, files });
+        logger.info('Watched files ingested', {
+          runId: result.runId,
+          files: files.length,
+          scheduled: result.scheduled,
+          uploaded: result.uploaded,
+        });
+      } catch (error) {
+        if (error instanceof RunInProgressError) {
+          files.forEach((file) => watchedFiles.add(file));
+          watchRetry ??= setTimeout(() => {
+            watchRetry = null;
+            ingestWatchedFiles();
+          }, WATCH_RETRY_DELAY_MS);
+          return;
+        }
+        logger.error('Failed to ingest watched files', { files, error });
+      }
+    }).finally(() => {
+      watchRun = null;
+      ingestWatchedFiles();
+    });
+  };
+
+  let watcher: ContentWatcher | null = null;
+  if (config.enableWatchMode) {
+    watcher = await watchContentDir((filepath) => {
+      watchedFiles.add(filepath);
+      ingestWatchedFiles();
+    });
+  }
+
+  async function publishStatus() {
+    const running = state === 'running';
+    try {
+      await saveDaemonStatus({
+        pid: process.pid,
+        state,
+        startedAt,
+        heartbeatAt: new Date(),
+        agentSchedule: config.agentCronSchedule,
+        analyticsSchedule: config.analyticsCronSchedule,
+        nextAgentRunAt: running ? agentTask.getNextRun() : null,
+        nextAnalyticsRunAt: running ? analyticsTask.getNextRun() : null,
+      });
+    } catch (error) {
+      logger.warn('Failed to publish daemon status', { error });
+    }
+  }
+
+  const heartbeat = setInterval(() => void publishStatus(), DAEMON_HEARTBEAT_INTERVAL_MS);
+  await publishStatus();
+
+  logger.info('Agent daemon started', {
+    agentSchedule: config.agentCronSchedule,
+    analyticsSchedule: config.analyticsCronSchedule,
+    timezone: config.timezone,
+    watchMode: config.enableWatchMode,
+    nextAgentRunAt: agentTask.getNextRun(),
+    nextAnalyticsRunAt: analyticsTask.getNextRun(),
+  });
+
+  return {
+    async stop() {
+      if (state !== 'running') return;
+      state = 'stopping';
+      stopping.abort();
+      watcher?.close();
+      if (watchRetry) clearTimeout(watchRetry);
+      await Promise.all([agentTask.stop(), analyticsTask.stop()]);
+      await publishStatus();
+
+      const drain = async (timeoutMs: number) => {
+        let timer: NodeJS.Timeout | undefined;
+        const drained = await Promise.race([
+          Promise.allSettled([...inFlight]).then(() => true),
+          new Promise<boolean>((resolve) => {
+            timer = setTimeout(() => resolve(false), timeoutMs);
+          }),
+        ]);
+        clearTimeout(timer);
+        return drained;
+      };
+      if (inFlight.size > 0) {
+        logger.info('Waiting for in-flight jobs before shutdown', { jobs: inFlight.size });
+        if (!(await drain(config.daemonShutdownTimeoutSeconds * 1000))) {
+          logger.warn('Shutdown timeout reached, interrupting uploads', { jobs: inFlight.size });
+          abortUploads.abort();
+          if (!(await drain(UPLOAD_ABORT_GRACE_MS))) {
+            logger.warn('Jobs still running at shutdown', { jobs: inFlight.size });
+          }
+        }
+      }
+
+      clearInterval(heartbeat);
+      await Promise.all([agentTask.destroy(), analyticsTask.destroy()]);
+      state = 'stopped';
+      await publishStatus();
+      logger.info('Agent daemon stopped');
+    },
+  };
+}
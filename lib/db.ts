@@ -3,13 +3,80 @@ import 'server-only';
 import fs from 'fs/promises';
 import path from 'path';
 import { sql } from '@vercel/postgres';
+import { DEFAULT_CHANNEL_ID } from './channels';
 import { getConfig } from './config';
 
-export type VideoStatus = 'new' | 'scheduled' | 'processing' | 'uploaded' | 'failed';
+export type VideoStatus =
+  | 'new'
+  | 'scheduled'
+  | 'processing'
+  | 'uploaded'
+  | 'failed'
+  | 'dead'
+  | 'rejected';
+
+/**
+ * Legal status transitions. `processing` is only entered by claiming a video and only left by
+ * an upload outcome or by handing the claim back; `uploaded` is terminal.
+ */
+export const VIDEO_STATUS_TRANSITIONS: Record<VideoStatus, readonly VideoStatus[]> = {
+  new: ['new', 'scheduled', 'rejected'],
+  scheduled: ['processing'],
+  processing: ['uploaded', 'failed', 'dead', 'scheduled'],
+  failed: ['processing'],
+  dead: ['new'],
+  rejected: ['rejected', 'new', 'scheduled'],
+  uploaded: [],
+};
+
+export function canTransitionVideo(from: VideoStatus, to: VideoStatus): boolean {
+  return VIDEO_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    readonly filename: string,
+    readonly from: VideoStatus,
+    readonly to: VideoStatus,
+  ) {
+    super(`Illegal status transition for ${filename}: ${from} -> ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+function assertVideoTransition(filename: string, from: VideoStatus, to: VideoStatus) {
+  if (!canTransitionVideo(from, to)) {
+    throw new InvalidStatusTransitionError(filename, from, to);
+  }
+}
+
+export interface PlaylistAssignment {
+  playlistId: string;
+  /** `dead` inserts failed permanently or ran out of attempts and are not retried. */
+  status: 'added' | 'failed' | 'dead';
+  playlistItemId: string | null;
+  error: string | null;
+  attemptedAt: string;
+  /** Inserts tried so far; absent on assignments stored before attempts were counted. */
+  attempts?: number;
+  /** When a failed insert may be tried again. */
+  nextAttemptAt?: string | null;
+}
+
+/** A YouTube resumable upload in flight; `offset` is the next byte the server expects. */
+export interface UploadSession {
+  uri: string;
+  videoPath: string;
+  totalBytes: number;
+  offset: number;
+  startedAt: string;
+  updatedAt: string;
+}
 
 export interface VideoRecord {
   id: number;
   filename: string;
+  channelId: string;
   status: VideoStatus;
   fileHash: string | null;
   fileSize: number | null;
@@ -18,24 +85,147 @@ export interface VideoRecord {
   youtubeVideoId: string | null;
   metadata: Record<string, unknown> | null;
   analytics: Record<string, unknown> | null;
+  media: Record<string, unknown> | null;
+  playlistAssignments: PlaylistAssignment[];
+  uploadSession: UploadSession | null;
   error: string | null;
   retryCount: number;
+  nextAttemptAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-interface SerializedVideoRecord extends Omit<VideoRecord, 'scheduledAt' | 'uploadedAt' | 'createdAt' | 'updatedAt'> {
+/** A video's path relative to its channel's content folder is unique within that channel. */
+export type VideoKey = Pick<VideoRecord, 'channelId' | 'filename'>;
+
+export type RunTrigger = 'api' | 'button' | 'cli' | 'cron' | 'watch';
+export type RunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface RunStep {
+  filename: string | null;
+  step: string;
+  status: 'ok' | 'error' | 'skipped';
+  startedAt: string;
+  durationMs: number;
+  message: string | null;
+}
+
+export interface RunRecord {
+  id: string;
+  trigger: RunTrigger;
+  status: RunStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  result: Record<string, unknown> | null;
+  errors: string[];
+  steps: RunStep[];
+}
+
+export interface DaemonStatus {
+  pid: number;
+  state: 'running' | 'stopping' | 'stopped';
+  startedAt: Date;
+  heartbeatAt: Date;
+  agentSchedule: string;
+  analyticsSchedule: string;
+  nextAgentRunAt: Date | null;
+  nextAnalyticsRunAt: Date | null;
+}
+
+export type YoutubeCredentialStatus = 'connected' | 'invalid';
+
+export interface YoutubeCredential {
+  channelId: string;
+  encryptedRefreshToken: string | null;
+  status: YoutubeCredentialStatus;
+  accountChannelId: string | null;
+  accountChannelTitle: string | null;
+  lastError: string | null;
+  connectedAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface QuotaUsageEntry {
+  /** Quota day in Pacific time (YYYY-MM-DD); YouTube resets quotas at Pacific midnight. */
+  day: string;
+  channelId: string;
+  operation: string;
+  calls: number;
+  units: number;
+}
+
+export interface LlmUsageEntry {
+  /** UTC day (YYYY-MM-DD). */
+  day: string;
+  task: string;
+  model: string;
+  calls: number;
+  /** Calls answered from the on-disk response cache; they carry no tokens or cost. */
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** One reading of a video's public counts; a row is added on every analytics refresh. */
+export interface AnalyticsSnapshot {
+  videoId: number;
+  capturedAt: Date;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+interface SerializedAnalyticsSnapshot extends Omit<AnalyticsSnapshot, 'capturedAt'> {
+  capturedAt: string;
+}
+
+interface SerializedRunRecord extends Omit<RunRecord, 'startedAt' | 'finishedAt'> {
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface SerializedVideoRecord
+  extends Omit<
+    VideoRecord,
+    | 'channelId'
+    | 'scheduledAt'
+    | 'uploadedAt'
+    | 'nextAttemptAt'
+    | 'media'
+    | 'playlistAssignments'
+    | 'uploadSession'
+    | 'createdAt'
+    | 'updatedAt'
+  > {
+  channelId?: string;
   scheduledAt: string | null;
   uploadedAt: string | null;
+  nextAttemptAt?: string | null;
+  media?: Record<string, unknown> | null;
+  playlistAssignments?: PlaylistAssignment[];
+  uploadSession?: UploadSession | null;
   createdAt: string;
   updatedAt: string;
 }
 
 interface FileStoreShape {
+  /** Stores without one predate `FILE_STORE_VERSION` 2. */
+  version: number;
   lastId: number;
   videos: SerializedVideoRecord[];
+  runs: SerializedRunRecord[];
+  quotaUsage: QuotaUsageEntry[];
+  llmUsage: LlmUsageEntry[];
+  analyticsSnapshots: SerializedAnalyticsSnapshot[];
 }
 
+/** 2: filenames of non-default channels no longer carry a `<channelId>/` prefix. */
+const FILE_STORE_VERSION = 2;
+const MAX_FILE_STORE_RUNS = 200;
+const MAX_FILE_STORE_QUOTA_DAYS = 31;
+const MAX_FILE_STORE_LLM_USAGE_DAYS = 31;
+
 const hasDatabaseUrl = Boolean(
   process.env.POSTGRES_URL ||
     process.env.POSTGRES_PRISMA_URL ||
@@ -51,8 +241,13 @@ const fileStorePath = path.isAbsolute(config.dataStore)
 function deserialize(record: SerializedVideoRecord): VideoRecord {
   return {
     ...record,
+    channelId: record.channelId ?? DEFAULT_CHANNEL_ID,
+    media: record.media ?? null,
+    playlistAssignments: record.playlistAssignments ?? [],
+    uploadSession: record.uploadSession ?? null,
     scheduledAt: record.scheduledAt ? new Date(record.scheduledAt) : null,
     uploadedAt: record.uploadedAt ? new Date(record.uploadedAt) : null,
+    nextAttemptAt: record.nextAttemptAt ? new Date(record.nextAttemptAt) : null,
     createdAt: new Date(record.createdAt),
     updatedAt: new Date(record.updatedAt),
   };
@@ -63,25 +258,47 @@ function serialize(record: VideoRecord): SerializedVideoRecord {
     ...record,
     scheduledAt: record.scheduledAt ? record.scheduledAt.toISOString() : null,
     uploadedAt: record.uploadedAt ? record.uploadedAt.toISOString() : null,
+    nextAttemptAt: record.nextAttemptAt ? record.nextAttemptAt.toISOString() : null,
     createdAt: record.createdAt.toISOString(),
     updatedAt: record.updatedAt.toISOString(),
   };
 }
 
+function stripChannelPrefix(record: SerializedVideoRecord): SerializedVideoRecord {
+  const channelId = record.channelId ?? DEFAULT_CHANNEL_ID;
+  const prefix = `${channelId}/`;
+  if (channelId === DEFAULT_CHANNEL_ID || !record.filename.startsWith(prefix)) return record;
+  return { ...record, filename: record.filename.slice(prefix.length) };
+}
+
 async function readFileStore(): Promise<FileStoreShape> {
   try {
     const content = await fs.readFile(fileStorePath, 'utf-8');
     const parsed = JSON.parse(content);
+    const videos: SerializedVideoRecord[] = Array.isArray(parsed.videos) ? parsed.videos : [];
     return {
+      version: FILE_STORE_VERSION,
       lastId: Number(parsed.lastId ?? 0),
-      videos: Array.isArray(parsed.videos) ? parsed.videos : [],
+      videos: Number(parsed.version ?? 1) < 2 ? videos.map(stripChannelPrefix) : videos,
+      runs: Array.isArray(parsed.runs) ? parsed.runs : [],
+      quotaUsage: Array.isArray(parsed.quotaUsage) ? parsed.quotaUsage : [],
+      llmUsage: Array.isArray(parsed.llmUsage) ? parsed.llmUsage : [],
+      analyticsSnapshots: Array.isArray(parsed.analyticsSnapshots) ? parsed.analyticsSnapshots : [],
     };
   } catch (error: unknown) {
     if (typeof error === 'object' && error !== null && 'code' in error) {
       const code = (error as { code?: string }).code;
       if (code === 'ENOENT') {
         await fs.mkdir(path.dirname(fileStorePath), { recursive: true });
-        const initial: FileStoreShape = { lastId: 0, videos: [] };
+        const initial: FileStoreShape = {
+          version: FILE_STORE_VERSION,
+          lastId: 0,
+          videos: [],
+          runs: [],
+          quotaUsage: [],
+          llmUsage: [],
+          analyticsSnapshots: [],
+        };
         await fs.writeFile(fileStorePath, JSON.stringify(initial, null, 2), 'utf-8');
         return initial;
       }
@@ -92,7 +309,60 @@ async function readFileStore(): Promise<FileStoreShape> {
 
 async function writeFileStore(store: FileStoreShape) {
   await fs.mkdir(path.dirname(fileStorePath), { recursive: true });
-  await fs.writeFile(fileStorePath, JSON.stringify(store, null, 2), 'utf-8');
+  const tempPath = `${fileStorePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2), 'utf-8');
+  await fs.rename(tempPath, fileStorePath);
+}
+
+const fileStoreLockPath = `${fileStorePath}.lock`;
+const fileRunLeasePath = `${fileStorePath}.run-lease`;
+const fileDaemonStatusPath = `${fileStorePath}.daemon`;
+const fileCredentialsPath = `${fileStorePath}.credentials`;
+const FILE_LOCK_STALE_MS = 30_000;
+const FILE_LOCK_TIMEOUT_MS = 15_000;
+let fileLockQueue: Promise<unknown> = Promise.resolve();
+
+async function acquireFileStoreLock() {
+  const startedAt = Date.now();
+  await fs.mkdir(path.dirname(fileStoreLockPath), { recursive: true });
+  for (;;) {
+    try {
+      const handle = await fs.open(fileStoreLockPath, 'wx');
+      await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }));
+      await handle.close();
+      return;
+    } catch (error: unknown) {
+      const code = typeof error === 'object' && error !== null && 'code' in error
+        ? (error as { code?: string }).code
+        : undefined;
+      if (code !== 'EEXIST') throw error;
+    }
+
+    const stat = await fs.stat(fileStoreLockPath).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > FILE_LOCK_STALE_MS) {
+      await fs.unlink(fileStoreLockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() - startedAt > FILE_LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for data store lock at ${fileStoreLockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25 + Math.random() * 50));
+  }
+}
+
+// Serializes read-modify-write cycles on the JSON store: in-process callers queue on a
+// promise chain, other processes are excluded by an O_EXCL lock file next to the store.
+function withFileStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = fileLockQueue.then(async () => {
+    await acquireFileStoreLock();
+    try {
+      return await fn();
+    } finally {
+      await fs.unlink(fileStoreLockPath).catch(() => {});
+    }
+  });
+  fileLockQueue = run.catch(() => {});
+  return run;
 }
 
 export async function ensureSchema() {
@@ -104,7 +374,7 @@ export async function ensureSchema() {
   await sql`
     CREATE TABLE IF NOT EXISTS videos (
       id SERIAL PRIMARY KEY,
-      filename TEXT NOT NULL UNIQUE,
+      filename TEXT NOT NULL,
       status TEXT NOT NULL,
       scheduled_at TIMESTAMPTZ,
       uploaded_at TIMESTAMPTZ,
@@ -122,6 +392,113 @@ export async function ensureSchema() {
 
   await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS file_hash TEXT`;
   await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS file_size BIGINT`;
+  await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ`;
+  await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media JSONB`;
+  await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS playlist_assignments JSONB`;
+  await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS channel_id TEXT NOT NULL DEFAULT 'default'`;
+  await sql`ALTER TABLE videos ADD COLUMN IF NOT EXISTS upload_session JSONB`;
+  // Filenames used to be unique across channels, with non-default channels prefixed by their id.
+  const legacyKey = await sql`SELECT 1 FROM pg_constraint WHERE conname = 'videos_filename_key'`;
+  if (legacyKey.rows.length > 0) {
+    await sql`ALTER TABLE videos DROP CONSTRAINT videos_filename_key`;
+    await sql`
+      UPDATE videos SET filename = substr(filename, length(channel_id) + 2)
+      WHERE channel_id <> ${DEFAULT_CHANNEL_ID} AND starts_with(filename, channel_id || '/')
+    `;
+  }
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS videos_channel_filename_idx ON videos (channel_id, filename)`;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS agent_run_leases (
+      name TEXT PRIMARY KEY,
+      run_id TEXT NOT NULL,
+      acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMPTZ NOT NULL
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS agent_runs (
+      id TEXT PRIMARY KEY,
+      trigger TEXT NOT NULL,
+      status TEXT NOT NULL,
+      started_at TIMESTAMPTZ NOT NULL,
+      finished_at TIMESTAMPTZ,
+      result JSONB,
+      errors JSONB,
+      steps JSONB
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS agent_daemon_status (
+      name TEXT PRIMARY KEY,
+      pid INTEGER NOT NULL,
+      state TEXT NOT NULL,
+      started_at TIMESTAMPTZ NOT NULL,
+      heartbeat_at TIMESTAMPTZ NOT NULL,
+      agent_schedule TEXT NOT NULL,
+      analytics_schedule TEXT NOT NULL,
+      next_agent_run_at TIMESTAMPTZ,
+      next_analytics_run_at TIMESTAMPTZ
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS youtube_credentials (
+      channel_id TEXT PRIMARY KEY,
+      encrypted_refresh_token TEXT,
+      status TEXT NOT NULL,
+      account_channel_id TEXT,
+      account_channel_title TEXT,
+      last_error TEXT,
+      connected_at TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ NOT NULL
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS youtube_quota_usage (
+      day TEXT NOT NULL,
+      channel_id TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      calls INTEGER NOT NULL DEFAULT 0,
+      units INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (day, channel_id, operation)
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      day TEXT NOT NULL,
+      task TEXT NOT NULL,
+      model TEXT NOT NULL,
+      calls INTEGER NOT NULL DEFAULT 0,
+      cached_calls INTEGER NOT NULL DEFAULT 0,
+      input_tokens BIGINT NOT NULL DEFAULT 0,
+      output_tokens BIGINT NOT NULL DEFAULT 0,
+      cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+      PRIMARY KEY (day, task, model)
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS analytics_snapshots (
+      id SERIAL PRIMARY KEY,
+      video_id INTEGER NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+      captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      view_count BIGINT NOT NULL DEFAULT 0,
+      like_count BIGINT NOT NULL DEFAULT 0,
+      comment_count BIGINT NOT NULL DEFAULT 0
+    )
+  `;
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS analytics_snapshots_video_idx ON analytics_snapshots (video_id, captured_at)
+  `;
+  await sql`
+    CREATE INDEX IF NOT EXISTS analytics_snapshots_captured_idx ON analytics_snapshots (captured_at)
+  `;
 
   await sql`
     CREATE TABLE IF NOT EXISTS notifications (
@@ -159,9 +536,46 @@ function mapVideoRow(row: Record<string, unknown>): VideoRecord {
     analytics = analyticsRaw as Record<string, unknown>;
   }
 
+  const mediaRaw = row.media;
+  let media: Record<string, unknown> | null = null;
+  if (typeof mediaRaw === 'string') {
+    try {
+      media = JSON.parse(mediaRaw) as Record<string, unknown>;
+    } catch {
+      media = null;
+    }
+  } else if (mediaRaw && typeof mediaRaw === 'object') {
+    media = mediaRaw as Record<string, unknown>;
+  }
+
+  const playlistRaw = row.playlist_assignments;
+  let playlistAssignments: PlaylistAssignment[] = [];
+  if (typeof playlistRaw === 'string') {
+    try {
+      playlistAssignments = JSON.parse(playlistRaw) as PlaylistAssignment[];
+    } catch {
+      playlistAssignments = [];
+    }
+  } else if (Array.isArray(playlistRaw)) {
+    playlistAssignments = playlistRaw as PlaylistAssignment[];
+  }
+
+  const sessionRaw = row.upload_session;
+  let uploadSession: UploadSession | null = null;
+  if (typeof sessionRaw === 'string') {
+    try {
+      uploadSession = JSON.parse(sessionRaw) as UploadSession;
+    } catch {
+      uploadSession = null;
+    }
+  } else if (sessionRaw && typeof sessionRaw === 'object') {
+    uploadSession = sessionRaw as UploadSession;
+  }
+
   return {
     id: Number(row.id),
     filename: String(row.filename),
+    channelId: row.channel_id ? String(row.channel_id) : DEFAULT_CHANNEL_ID,
     status: row.status as VideoStatus,
     fileHash: (row.file_hash as string | null) ?? null,
     fileSize: row.file_size != null ? Number(row.file_size) : null,
@@ -170,8 +584,12 @@ function mapVideoRow(row: Record<string, unknown>): VideoRecord {
     youtubeVideoId: (row.youtube_video_id as string | null) ?? null,
     metadata,
     analytics,
+    media,
+    playlistAssignments,
+    uploadSession,
     error: (row.error as string | null) ?? null,
     retryCount: row.retry_count != null ? Number(row.retry_count) : 0,
+    nextAttemptAt: row.next_attempt_at ? new Date(String(row.next_attempt_at)) : null,
     createdAt: row.created_at ? new Date(String(row.created_at)) : new Date(),
     updatedAt: row.updated_at ? new Date(String(row.updated_at)) : new Date(),
   };
@@ -183,8 +601,9 @@ async function getFileVideos(): Promise<VideoRecord[]> {
 }
 
 async function saveFileVideos(videos: VideoRecord[]) {
+  const store = await readFileStore();
   const lastId = videos.reduce((acc, video) => Math.max(acc, video.id), 0);
-  await writeFileStore({ lastId, videos: videos.map(serialize) });
+  await writeFileStore({ ...store, lastId, videos: videos.map(serialize) });
 }
 
 async function allocateFileId(): Promise<number> {
@@ -194,28 +613,33 @@ async function allocateFileId(): Promise<number> {
   return nextId;
 }
 
-export async function getVideoByFilename(filename: string): Promise<VideoRecord | null> {
+function isVideo(key: VideoKey) {
+  return (video: VideoRecord) => video.channelId === key.channelId && video.filename === key.filename;
+}
+
+export async function getVideoByFilename(filename: string, channelId: string): Promise<VideoRecord | null> {
   if (!hasDatabaseUrl) {
     const videos = await getFileVideos();
-    return videos.find((video) => video.filename === filename) ?? null;
+    return videos.find(isVideo({ channelId, filename })) ?? null;
   }
-  const { rows } = await sql`SELECT * FROM videos WHERE filename = ${filename}`;
+  const { rows } = await sql`SELECT * FROM videos WHERE channel_id = ${channelId} AND filename = ${filename}`;
   if (rows.length === 0) return null;
   return mapVideoRow(rows[0]);
 }
 
-export async function getVideoByHash(hash: string): Promise<VideoRecord | null> {
+export async function getVideoByHash(hash: string, channelId: string): Promise<VideoRecord | null> {
   if (!hasDatabaseUrl) {
     const videos = await getFileVideos();
-    return videos.find((video) => video.fileHash === hash) ?? null;
+    return videos.find((video) => video.fileHash === hash && video.channelId === channelId) ?? null;
   }
-  const { rows } = await sql`SELECT * FROM videos WHERE file_hash = ${hash}`;
+  const { rows } = await sql`SELECT * FROM videos WHERE file_hash = ${hash} AND channel_id = ${channelId}`;
   if (rows.length === 0) return null;
   return mapVideoRow(rows[0]);
 }
 
 export async function upsertVideoRecord(record: {
   filename: string;
+  channelId?: string;
   status: VideoStatus;
   scheduledAt?: Date | null;
   metadata?: Record<string, unknown> | null;
@@ -224,53 +648,70 @@ export async function upsertVideoRecord(record: {
   uploadedAt?: Date | null;
   fileHash?: string | null;
   fileSize?: number | null;
+  media?: Record<string, unknown> | null;
 }) {
+  const key: VideoKey = { channelId: record.channelId ?? DEFAULT_CHANNEL_ID, filename: record.filename };
   if (!hasDatabaseUrl) {
-    const videos = await getFileVideos();
-    const index = videos.findIndex((video) => video.filename === record.filename);
-    const now = new Date();
-    if (index >= 0) {
-      const existing = videos[index];
-      videos[index] = {
-        ...existing,
-        status: record.status,
-        scheduledAt: record.scheduledAt ?? existing.scheduledAt,
-        metadata: record.metadata ?? existing.metadata,
-        error: record.error ?? existing.error,
-        youtubeVideoId: record.youtubeVideoId ?? existing.youtubeVideoId,
-        uploadedAt: record.uploadedAt ?? existing.uploadedAt,
-        fileHash: record.fileHash ?? existing.fileHash,
-        fileSize: record.fileSize ?? existing.fileSize,
-        updatedAt: now,
-      };
-    } else {
-      videos.push({
-        id: await allocateFileId(),
-        filename: record.filename,
-        status: record.status,
-        fileHash: record.fileHash ?? null,
-        fileSize: record.fileSize ?? null,
-        scheduledAt: record.scheduledAt ?? null,
-        uploadedAt: record.uploadedAt ?? null,
-        youtubeVideoId: record.youtubeVideoId ?? null,
-        metadata: record.metadata ?? null,
-        analytics: null,
-        error: record.error ?? null,
-        retryCount: 0,
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
-    await saveFileVideos(videos);
-    return;
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(key));
+      const now = new Date();
+      if (index >= 0) {
+        const existing = videos[index];
+        assertVideoTransition(record.filename, existing.status, record.status);
+        videos[index] = {
+          ...existing,
+          status: record.status,
+          scheduledAt: record.scheduledAt ?? existing.scheduledAt,
+          metadata: record.metadata ?? existing.metadata,
+          error: record.error !== undefined ? record.error : existing.error,
+          youtubeVideoId: record.youtubeVideoId ?? existing.youtubeVideoId,
+          uploadedAt: record.uploadedAt ?? existing.uploadedAt,
+          fileHash: record.fileHash ?? existing.fileHash,
+          fileSize: record.fileSize ?? existing.fileSize,
+          media: record.media ?? existing.media,
+          updatedAt: now,
+        };
+      } else {
+        videos.push({
+          id: await allocateFileId(),
+          filename: record.filename,
+          channelId: key.channelId,
+          status: record.status,
+          fileHash: record.fileHash ?? null,
+          fileSize: record.fileSize ?? null,
+          scheduledAt: record.scheduledAt ?? null,
+          uploadedAt: record.uploadedAt ?? null,
+          youtubeVideoId: record.youtubeVideoId ?? null,
+          metadata: record.metadata ?? null,
+          analytics: null,
+          media: record.media ?? null,
+          playlistAssignments: [],
+          uploadSession: null,
+          error: record.error ?? null,
+          retryCount: 0,
+          nextAttemptAt: null,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      await saveFileVideos(videos);
+    });
   }
 
   const metadataJson = record.metadata ? JSON.stringify(record.metadata) : null;
+  const mediaJson = record.media ? JSON.stringify(record.media) : null;
+  const currentStatus = await readVideoStatus(key);
+  if (currentStatus) {
+    assertVideoTransition(record.filename, currentStatus, record.status);
+  }
 
-  await sql`
-    INSERT INTO videos (filename, status, scheduled_at, metadata, error, youtube_video_id, uploaded_at, file_hash, file_size)
+  // The conflict update only applies while the status is still the one checked above.
+  const { rowCount } = await sql`
+    INSERT INTO videos (filename, channel_id, status, scheduled_at, metadata, error, youtube_video_id, uploaded_at, file_hash, file_size, media)
     VALUES (
       ${record.filename},
+      ${key.channelId},
       ${record.status},
       ${record.scheduledAt ? record.scheduledAt.toISOString() : null},
       ${metadataJson},
@@ -278,9 +719,10 @@ export async function upsertVideoRecord(record: {
       ${record.youtubeVideoId ?? null},
       ${record.uploadedAt ? record.uploadedAt.toISOString() : null},
       ${record.fileHash ?? null},
-      ${record.fileSize ?? null}
+      ${record.fileSize ?? null},
+      ${mediaJson}
     )
-    ON CONFLICT (filename)
+    ON CONFLICT (channel_id, filename)
     DO UPDATE SET
       status = EXCLUDED.status,
       scheduled_at = EXCLUDED.scheduled_at,
@@ -290,92 +732,232 @@ export async function upsertVideoRecord(record: {
       uploaded_at = COALESCE(EXCLUDED.uploaded_at, videos.uploaded_at),
       file_hash = COALESCE(EXCLUDED.file_hash, videos.file_hash),
       file_size = COALESCE(EXCLUDED.file_size, videos.file_size),
+      media = COALESCE(EXCLUDED.media, videos.media),
       updated_at = NOW()
+    WHERE videos.status = ${currentStatus ?? record.status}
   `;
+  if ((rowCount ?? 0) === 0 && currentStatus) {
+    throw new Error(`Status of ${record.filename} changed concurrently, expected ${currentStatus}`);
+  }
+}
+
+async function readVideoStatus(video: VideoKey): Promise<VideoStatus | null> {
+  const { rows } = await sql`SELECT status FROM videos WHERE channel_id = ${video.channelId} AND filename = ${video.filename}`;
+  return rows.length > 0 ? (rows[0].status as VideoStatus) : null;
 }
 
-export async function markVideoAsProcessing(filename: string) {
+export async function markVideoAsProcessing(video: VideoKey): Promise<boolean> {
   if (!hasDatabaseUrl) {
-    const videos = await getFileVideos();
-    const index = videos.findIndex((video) => video.filename === filename);
-    if (index >= 0) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(video));
+      if (index < 0 || !canTransitionVideo(videos[index].status, 'processing')) {
+        return false;
+      }
       videos[index] = {
         ...videos[index],
         status: 'processing',
         updatedAt: new Date(),
       };
       await saveFileVideos(videos);
-    }
-    return;
+      return true;
+    });
   }
 
-  await sql`
+  const { rowCount } = await sql`
     UPDATE videos SET status = 'processing', updated_at = NOW()
-    WHERE filename = ${filename}
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename} AND status IN ('scheduled', 'failed')
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+/** Saving progress also bumps `updatedAt`, which keeps an active upload from looking stuck. */
+export async function saveUploadSession(video: VideoKey, session: UploadSession | null) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(video));
+      if (index >= 0) {
+        videos[index] = { ...videos[index], uploadSession: session, updatedAt: new Date() };
+        await saveFileVideos(videos);
+      }
+    });
+  }
+
+  await sql`
+    UPDATE videos
+    SET upload_session = ${session ? JSON.stringify(session) : null},
+        updated_at = NOW()
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename}
+  `;
+}
+
+/**
+ * Returns a claimed video to the queue without counting an attempt, e.g. after an interrupted
+ * upload. Any saved upload session is kept so the next attempt resumes.
+ */
+export async function releaseVideoClaim(video: VideoKey, note?: string) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex((candidate) => isVideo(video)(candidate) && candidate.status === 'processing');
+      if (index >= 0) {
+        videos[index] = {
+          ...videos[index],
+          status: 'scheduled',
+          error: note ?? videos[index].error,
+          updatedAt: new Date(),
+        };
+        await saveFileVideos(videos);
+      }
+    });
+  }
+
+  await sql`
+    UPDATE videos
+    SET status = 'scheduled',
+        error = COALESCE(${note ?? null}, error),
+        updated_at = NOW()
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename} AND status = 'processing'
   `;
 }
 
+/** Videos left in `processing` by a run that died mid-upload. */
+export async function listStuckUploads(staleBefore: Date): Promise<VideoRecord[]> {
+  if (!hasDatabaseUrl) {
+    const videos = await getFileVideos();
+    return videos.filter((video) => video.status === 'processing' && video.updatedAt < staleBefore);
+  }
+
+  const { rows } = await sql`
+    SELECT * FROM videos
+    WHERE status = 'processing' AND updated_at < ${staleBefore.toISOString()}
+    ORDER BY updated_at ASC
+  `;
+  return rows.map((row) => mapVideoRow(row as Record<string, unknown>));
+}
+
 export async function markVideoAsUploaded(
-  filename: string,
+  video: VideoKey,
   youtubeVideoId: string,
   metadata: Record<string, unknown>,
 ) {
   if (!hasDatabaseUrl) {
-    const videos = await getFileVideos();
-    const index = videos.findIndex((video) => video.filename === filename);
-    if (index >= 0) {
-      const now = new Date();
-      videos[index] = {
-        ...videos[index],
-        status: 'uploaded',
-        youtubeVideoId,
-        uploadedAt: now,
-        metadata,
-        error: null,
-        updatedAt: now,
-      };
-      await saveFileVideos(videos);
-    }
-    return;
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(video));
+      if (index >= 0) {
+        assertVideoTransition(video.filename, videos[index].status, 'uploaded');
+        const now = new Date();
+        videos[index] = {
+          ...videos[index],
+          status: 'uploaded',
+          youtubeVideoId,
+          uploadedAt: now,
+          metadata,
+          uploadSession: null,
+          error: null,
+          nextAttemptAt: null,
+          updatedAt: now,
+        };
+        await saveFileVideos(videos);
+      }
+    });
   }
 
+  const currentStatus = await readVideoStatus(video);
+  if (currentStatus) {
+    assertVideoTransition(video.filename, currentStatus, 'uploaded');
+  }
   await sql`
     UPDATE videos
     SET status = 'uploaded',
         youtube_video_id = ${youtubeVideoId},
         uploaded_at = NOW(),
         metadata = ${JSON.stringify(metadata)},
+        upload_session = NULL,
         updated_at = NOW(),
-        error = NULL
-    WHERE filename = ${filename}
+        error = NULL,
+        next_attempt_at = NULL
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename} AND status = ${currentStatus}
   `;
 }
 
-export async function recordVideoError(filename: string, error: string) {
+export async function recordVideoError(
+  video: VideoKey,
+  error: string,
+  outcome: { status: 'failed' | 'dead'; nextAttemptAt: Date | null } = {
+    status: 'failed',
+    nextAttemptAt: null,
+  },
+) {
   if (!hasDatabaseUrl) {
-    const videos = await getFileVideos();
-    const index = videos.findIndex((video) => video.filename === filename);
-    if (index >= 0) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(video));
+      if (index >= 0) {
+        assertVideoTransition(video.filename, videos[index].status, outcome.status);
+        videos[index] = {
+          ...videos[index],
+          status: outcome.status,
+          error,
+          retryCount: videos[index].retryCount + 1,
+          nextAttemptAt: outcome.nextAttemptAt,
+          updatedAt: new Date(),
+        };
+        await saveFileVideos(videos);
+      }
+    });
+  }
+
+  const currentStatus = await readVideoStatus(video);
+  if (currentStatus) {
+    assertVideoTransition(video.filename, currentStatus, outcome.status);
+  }
+  await sql`
+    UPDATE videos
+    SET status = ${outcome.status},
+        error = ${error},
+        retry_count = COALESCE(retry_count, 0) + 1,
+        next_attempt_at = ${outcome.nextAttemptAt ? outcome.nextAttemptAt.toISOString() : null},
+        updated_at = NOW()
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename} AND status = ${currentStatus}
+  `;
+}
+
+export async function requeueDeadVideo(videoId: number): Promise<boolean> {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex((video) => video.id === videoId && video.status === 'dead');
+      if (index < 0) return false;
       videos[index] = {
         ...videos[index],
-        status: 'failed',
-        error,
-        retryCount: videos[index].retryCount + 1,
+        status: 'new',
+        scheduledAt: null,
+        uploadSession: null,
+        error: null,
+        retryCount: 0,
+        nextAttemptAt: null,
         updatedAt: new Date(),
       };
       await saveFileVideos(videos);
-    }
-    return;
+      return true;
+    });
   }
 
-  await sql`
+  const { rowCount } = await sql`
     UPDATE videos
-    SET status = 'failed',
-        error = ${error},
-        retry_count = COALESCE(retry_count, 0) + 1,
+    SET status = 'new',
+        scheduled_at = NULL,
+        upload_session = NULL,
+        error = NULL,
+        retry_count = 0,
+        next_attempt_at = NULL,
         updated_at = NOW()
-    WHERE filename = ${filename}
+    WHERE id = ${videoId} AND status = 'dead'
   `;
+  return (rowCount ?? 0) > 0;
 }
 
 export async function listPendingUploads(): Promise<VideoRecord[]> {
@@ -403,6 +985,7 @@ export async function listReadyToUpload(now: Date): Promise<VideoRecord[]> {
     const videos = await getFileVideos();
     return videos.filter((video) => {
       if (!['scheduled', 'failed'].includes(video.status)) return false;
+      if (video.status === 'failed' && video.nextAttemptAt && video.nextAttemptAt > now) return false;
       if (!video.scheduledAt) return true;
       return video.scheduledAt <= now;
     });
@@ -412,27 +995,142 @@ export async function listReadyToUpload(now: Date): Promise<VideoRecord[]> {
     SELECT * FROM videos
     WHERE status IN ('scheduled', 'failed')
       AND (scheduled_at IS NULL OR scheduled_at <= ${now.toISOString()})
+      AND (status <> 'failed' OR next_attempt_at IS NULL OR next_attempt_at <= ${now.toISOString()})
     ORDER BY scheduled_at ASC NULLS FIRST
   `;
   return rows.map((row) => mapVideoRow(row as Record<string, unknown>));
 }
 
+export async function storePlaylistAssignments(
+  video: VideoKey,
+  assignments: PlaylistAssignment[],
+) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(video));
+      if (index >= 0) {
+        videos[index] = {
+          ...videos[index],
+          playlistAssignments: assignments,
+          updatedAt: new Date(),
+        };
+        await saveFileVideos(videos);
+      }
+    });
+  }
+
+  await sql`
+    UPDATE videos
+    SET playlist_assignments = ${JSON.stringify(assignments)},
+        updated_at = NOW()
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename}
+  `;
+}
+
+export async function listUploadedVideos(): Promise<VideoRecord[]> {
+  if (!hasDatabaseUrl) {
+    const videos = await getFileVideos();
+    return videos
+      .filter((video) => video.status === 'uploaded' && video.youtubeVideoId)
+      .sort((a, b) => (b.uploadedAt?.getTime() ?? 0) - (a.uploadedAt?.getTime() ?? 0));
+  }
+
+  const { rows } = await sql`
+    SELECT * FROM videos
+    WHERE status = 'uploaded' AND youtube_video_id IS NOT NULL
+    ORDER BY uploaded_at DESC NULLS LAST
+  `;
+  return rows.map((row) => mapVideoRow(row as Record<string, unknown>));
+}
+
+export async function updateVideoMetadata(video: VideoKey, metadata: Record<string, unknown>) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const videos = await getFileVideos();
+      const index = videos.findIndex(isVideo(video));
+      if (index >= 0) {
+        videos[index] = {
+          ...videos[index],
+          metadata,
+          updatedAt: new Date(),
+        };
+        await saveFileVideos(videos);
+      }
+    });
+  }
+
+  await sql`
+    UPDATE videos
+    SET metadata = ${JSON.stringify(metadata)},
+        updated_at = NOW()
+    WHERE channel_id = ${video.channelId} AND filename = ${video.filename}
+  `;
+}
+
+export async function listDeadVideos(): Promise<VideoRecord[]> {
+  if (!hasDatabaseUrl) {
+    const videos = await getFileVideos();
+    return videos
+      .filter((video) => video.status === 'dead')
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  const { rows } = await sql`
+    SELECT * FROM videos WHERE status = 'dead' ORDER BY updated_at DESC
+  `;
+  return rows.map((row) => mapVideoRow(row as Record<string, unknown>));
+}
+
+function toCount(value: unknown): number {
+  const count = Number(value ?? 0);
+  return Number.isFinite(count) ? count : 0;
+}
+
+/**
+ * Snapshots are kept for twice `ANALYTICS_LOOKBACK_DAYS`: a video's whole refresh history stays
+ * chartable for a while after its refreshes stop, and old uploads stop growing the store.
+ */
+function analyticsSnapshotCutoff(capturedAt: Date): Date {
+  return new Date(capturedAt.getTime() - 2 * getConfig().analyticsLookbackDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Saves a refresh's analytics. `videos.analytics` keeps the latest totals, and the counts are
+ * also appended to `analytics_snapshots` so their growth over time can be charted. Snapshots
+ * past the retention window are dropped on the way.
+ */
 export async function storeAnalytics(
   videoId: number,
   analytics: Record<string, unknown>,
+  capturedAt = new Date(),
 ) {
+  const snapshot: AnalyticsSnapshot = {
+    videoId,
+    capturedAt,
+    viewCount: toCount(analytics.viewCount),
+    likeCount: toCount(analytics.likeCount),
+    commentCount: toCount(analytics.commentCount),
+  };
+  const cutoff = analyticsSnapshotCutoff(capturedAt);
+
   if (!hasDatabaseUrl) {
-    const videos = await getFileVideos();
-    const index = videos.findIndex((video) => video.id === videoId);
-    if (index >= 0) {
-      videos[index] = {
-        ...videos[index],
-        analytics,
-        updatedAt: new Date(),
-      };
-      await saveFileVideos(videos);
-    }
-    return;
+    return withFileStoreLock(async () => {
+      const store = await readFileStore();
+      const index = store.videos.findIndex((video) => video.id === videoId);
+      if (index >= 0) {
+        store.videos[index] = {
+          ...store.videos[index],
+          analytics,
+          updatedAt: new Date().toISOString(),
+        };
+        store.analyticsSnapshots = store.analyticsSnapshots.filter(
+          (existing) => !(new Date(existing.capturedAt) < cutoff),
+        );
+        store.analyticsSnapshots.push({ ...snapshot, capturedAt: capturedAt.toISOString() });
+        await writeFileStore(store);
+      }
+    });
   }
 
   await sql`
@@ -441,6 +1139,49 @@ export async function storeAnalytics(
         updated_at = NOW()
     WHERE id = ${videoId}
   `;
+  await sql`
+    INSERT INTO analytics_snapshots (video_id, captured_at, view_count, like_count, comment_count)
+    VALUES (
+      ${videoId},
+      ${capturedAt.toISOString()},
+      ${snapshot.viewCount},
+      ${snapshot.likeCount},
+      ${snapshot.commentCount}
+    )
+  `;
+  await sql`DELETE FROM analytics_snapshots WHERE captured_at < ${cutoff.toISOString()}`;
+}
+
+/** Snapshots of the given videos, oldest first, keyed by video id. */
+export async function listAnalyticsSnapshots(videoIds: number[]): Promise<Map<number, AnalyticsSnapshot[]>> {
+  const byVideo = new Map<number, AnalyticsSnapshot[]>(videoIds.map((id) => [id, []]));
+  if (videoIds.length === 0) return byVideo;
+
+  let snapshots: AnalyticsSnapshot[];
+  if (!hasDatabaseUrl) {
+    const store = await readFileStore();
+    snapshots = store.analyticsSnapshots
+      .filter((snapshot) => byVideo.has(snapshot.videoId))
+      .map((snapshot) => ({ ...snapshot, capturedAt: new Date(snapshot.capturedAt) }));
+  } else {
+    const { rows } = await sql`
+      SELECT * FROM analytics_snapshots
+      WHERE video_id = ANY(string_to_array(${videoIds.join(',')}, ',')::int[])
+    `;
+    snapshots = rows.map((row) => ({
+      videoId: Number(row.video_id),
+      capturedAt: new Date(String(row.captured_at)),
+      viewCount: Number(row.view_count),
+      likeCount: Number(row.like_count),
+      commentCount: Number(row.comment_count),
+    }));
+  }
+
+  snapshots.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  for (const snapshot of snapshots) {
+    byVideo.get(snapshot.videoId)?.push(snapshot);
+  }
+  return byVideo;
 }
 
 export async function listVideos(limit = 50): Promise<VideoRecord[]> {
@@ -456,3 +1197,513 @@ export async function listVideos(limit = 50): Promise<VideoRecord[]> {
   `;
   return rows.map((row) => mapVideoRow(row as Record<string, unknown>));
 }
+
+const RUN_LEASE_NAME = 'agent';
+
+interface FileRunLease {
+  runId: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+async function readFileRunLease(): Promise<FileRunLease | null> {
+  try {
+    return JSON.parse(await fs.readFile(fileRunLeasePath, 'utf-8')) as FileRunLease;
+  } catch (error: unknown) {
+    if (typeof error === 'object' && error !== null && 'code' in error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ENOENT') return null;
+    }
+    throw error;
+  }
+}
+
+export type RunLeaseResult = { acquired: true } | { acquired: false; activeRunId: string | null };
+
+export async function acquireRunLease(runId: string, ttlMs: number): Promise<RunLeaseResult> {
+  const expiresAt = new Date(Date.now() + ttlMs);
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const existing = await readFileRunLease();
+      if (existing && new Date(existing.expiresAt) > new Date()) {
+        return { acquired: false, activeRunId: existing.runId };
+      }
+      const lease: FileRunLease = {
+        runId,
+        acquiredAt: new Date().toISOString(),
+        expiresAt: expiresAt.toISOString(),
+      };
+      await fs.writeFile(fileRunLeasePath, JSON.stringify(lease, null, 2), 'utf-8');
+      return { acquired: true };
+    });
+  }
+
+  const { rows } = await sql`
+    INSERT INTO agent_run_leases (name, run_id, acquired_at, expires_at)
+    VALUES (${RUN_LEASE_NAME}, ${runId}, NOW(), ${expiresAt.toISOString()})
+    ON CONFLICT (name) DO UPDATE SET
+      run_id = EXCLUDED.run_id,
+      acquired_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+    WHERE agent_run_leases.expires_at <= NOW()
+    RETURNING run_id
+  `;
+  if (rows.length > 0) return { acquired: true };
+
+  const { rows: active } = await sql`
+    SELECT run_id FROM agent_run_leases WHERE name = ${RUN_LEASE_NAME}
+  `;
+  return { acquired: false, activeRunId: active[0] ? String(active[0].run_id) : null };
+}
+
+export async function renewRunLease(runId: string, ttlMs: number) {
+  const expiresAt = new Date(Date.now() + ttlMs);
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const existing = await readFileRunLease();
+      if (existing?.runId !== runId) return;
+      await fs.writeFile(
+        fileRunLeasePath,
+        JSON.stringify({ ...existing, expiresAt: expiresAt.toISOString() }, null, 2),
+        'utf-8',
+      );
+    });
+  }
+
+  await sql`
+    UPDATE agent_run_leases
+    SET expires_at = ${expiresAt.toISOString()}
+    WHERE name = ${RUN_LEASE_NAME} AND run_id = ${runId}
+  `;
+}
+
+export async function releaseRunLease(runId: string) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const existing = await readFileRunLease();
+      if (existing?.runId === runId) {
+        await fs.unlink(fileRunLeasePath).catch(() => {});
+      }
+    });
+  }
+
+  await sql`
+    DELETE FROM agent_run_leases WHERE name = ${RUN_LEASE_NAME} AND run_id = ${runId}
+  `;
+}
+
+function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+  return value != null && typeof value === 'object' ? (value as T) : fallback;
+}
+
+function mapRunRow(row: Record<string, unknown>): RunRecord {
+  return {
+    id: String(row.id),
+    trigger: row.trigger as RunTrigger,
+    status: row.status as RunStatus,
+    startedAt: new Date(String(row.started_at)),
+    finishedAt: row.finished_at ? new Date(String(row.finished_at)) : null,
+    result: parseJsonColumn<Record<string, unknown> | null>(row.result, null),
+    errors: parseJsonColumn<string[]>(row.errors, []),
+    steps: parseJsonColumn<RunStep[]>(row.steps, []),
+  };
+}
+
+function deserializeRun(run: SerializedRunRecord): RunRecord {
+  return {
+    ...run,
+    startedAt: new Date(run.startedAt),
+    finishedAt: run.finishedAt ? new Date(run.finishedAt) : null,
+  };
+}
+
+export async function saveRunRecord(run: RunRecord) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const store = await readFileStore();
+      const serialized: SerializedRunRecord = {
+        ...run,
+        startedAt: run.startedAt.toISOString(),
+        finishedAt: run.finishedAt ? run.finishedAt.toISOString() : null,
+      };
+      const runs = [serialized, ...store.runs.filter((existing) => existing.id !== run.id)]
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, MAX_FILE_STORE_RUNS);
+      await writeFileStore({ ...store, runs });
+    });
+  }
+
+  await sql`
+    INSERT INTO agent_runs (id, trigger, status, started_at, finished_at, result, errors, steps)
+    VALUES (
+      ${run.id},
+      ${run.trigger},
+      ${run.status},
+      ${run.startedAt.toISOString()},
+      ${run.finishedAt ? run.finishedAt.toISOString() : null},
+      ${run.result ? JSON.stringify(run.result) : null},
+      ${JSON.stringify(run.errors)},
+      ${JSON.stringify(run.steps)}
+    )
+    ON CONFLICT (id)
+    DO UPDATE SET
+      status = EXCLUDED.status,
+      finished_at = EXCLUDED.finished_at,
+      result = EXCLUDED.result,
+      errors = EXCLUDED.errors,
+      steps = EXCLUDED.steps
+  `;
+}
+
+export async function listRuns(limit = 50): Promise<RunRecord[]> {
+  if (!hasDatabaseUrl) {
+    const store = await readFileStore();
+    return store.runs.slice(0, limit).map(deserializeRun);
+  }
+
+  const { rows } = await sql`
+    SELECT * FROM agent_runs ORDER BY started_at DESC LIMIT ${limit}
+  `;
+  return rows.map((row) => mapRunRow(row as Record<string, unknown>));
+}
+
+export async function getRun(id: string): Promise<RunRecord | null> {
+  if (!hasDatabaseUrl) {
+    const store = await readFileStore();
+    const run = store.runs.find((existing) => existing.id === id);
+    return run ? deserializeRun(run) : null;
+  }
+
+  const { rows } = await sql`SELECT * FROM agent_runs WHERE id = ${id}`;
+  if (rows.length === 0) return null;
+  return mapRunRow(rows[0]);
+}
+
+const DAEMON_STATUS_NAME = 'agent-daemon';
+export const DAEMON_HEARTBEAT_INTERVAL_MS = 60_000;
+
+interface SerializedDaemonStatus
+  extends Omit<DaemonStatus, 'startedAt' | 'heartbeatAt' | 'nextAgentRunAt' | 'nextAnalyticsRunAt'> {
+  startedAt: string;
+  heartbeatAt: string;
+  nextAgentRunAt: string | null;
+  nextAnalyticsRunAt: string | null;
+}
+
+export async function saveDaemonStatus(status: DaemonStatus) {
+  if (!hasDatabaseUrl) {
+    const serialized: SerializedDaemonStatus = {
+      ...status,
+      startedAt: status.startedAt.toISOString(),
+      heartbeatAt: status.heartbeatAt.toISOString(),
+      nextAgentRunAt: status.nextAgentRunAt ? status.nextAgentRunAt.toISOString() : null,
+      nextAnalyticsRunAt: status.nextAnalyticsRunAt ? status.nextAnalyticsRunAt.toISOString() : null,
+    };
+    await fs.mkdir(path.dirname(fileDaemonStatusPath), { recursive: true });
+    const tempPath = `${fileDaemonStatusPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(serialized, null, 2), 'utf-8');
+    await fs.rename(tempPath, fileDaemonStatusPath);
+    return;
+  }
+
+  await sql`
+    INSERT INTO agent_daemon_status (
+      name, pid, state, started_at, heartbeat_at, agent_schedule, analytics_schedule,
+      next_agent_run_at, next_analytics_run_at
+    )
+    VALUES (
+      ${DAEMON_STATUS_NAME},
+      ${status.pid},
+      ${status.state},
+      ${status.startedAt.toISOString()},
+      ${status.heartbeatAt.toISOString()},
+      ${status.agentSchedule},
+      ${status.analyticsSchedule},
+      ${status.nextAgentRunAt ? status.nextAgentRunAt.toISOString() : null},
+      ${status.nextAnalyticsRunAt ? status.nextAnalyticsRunAt.toISOString() : null}
+    )
+    ON CONFLICT (name)
+    DO UPDATE SET
+      pid = EXCLUDED.pid,
+      state = EXCLUDED.state,
+      started_at = EXCLUDED.started_at,
+      heartbeat_at = EXCLUDED.heartbeat_at,
+      agent_schedule = EXCLUDED.agent_schedule,
+      analytics_schedule = EXCLUDED.analytics_schedule,
+      next_agent_run_at = EXCLUDED.next_agent_run_at,
+      next_analytics_run_at = EXCLUDED.next_analytics_run_at
+  `;
+}
+
+export async function getDaemonStatus(): Promise<DaemonStatus | null> {
+  if (!hasDatabaseUrl) {
+    let parsed: SerializedDaemonStatus;
+    try {
+      parsed = JSON.parse(await fs.readFile(fileDaemonStatusPath, 'utf-8')) as SerializedDaemonStatus;
+    } catch (error: unknown) {
+      if (typeof error === 'object' && error !== null && 'code' in error) {
+        const code = (error as { code?: string }).code;
+        if (code === 'ENOENT') return null;
+      }
+      throw error;
+    }
+    return {
+      ...parsed,
+      startedAt: new Date(parsed.startedAt),
+      heartbeatAt: new Date(parsed.heartbeatAt),
+      nextAgentRunAt: parsed.nextAgentRunAt ? new Date(parsed.nextAgentRunAt) : null,
+      nextAnalyticsRunAt: parsed.nextAnalyticsRunAt ? new Date(parsed.nextAnalyticsRunAt) : null,
+    };
+  }
+
+  const { rows } = await sql`SELECT * FROM agent_daemon_status WHERE name = ${DAEMON_STATUS_NAME}`;
+  if (rows.length === 0) return null;
+  const row = rows[0];
+  return {
+    pid: Number(row.pid),
+    state: row.state as DaemonStatus['state'],
+    startedAt: new Date(String(row.started_at)),
+    heartbeatAt: new Date(String(row.heartbeat_at)),
+    agentSchedule: String(row.agent_schedule),
+    analyticsSchedule: String(row.analytics_schedule),
+    nextAgentRunAt: row.next_agent_run_at ? new Date(String(row.next_agent_run_at)) : null,
+    nextAnalyticsRunAt: row.next_analytics_run_at ? new Date(String(row.next_analytics_run_at)) : null,
+  };
+}
+
+export function isDaemonAlive(status: DaemonStatus | null, now = new Date()): boolean {
+  if (!status || status.state === 'stopped') return false;
+  return now.getTime() - status.heartbeatAt.getTime() <= DAEMON_HEARTBEAT_INTERVAL_MS * 3;
+}
+
+interface SerializedYoutubeCredential extends Omit<YoutubeCredential, 'connectedAt' | 'updatedAt'> {
+  connectedAt: string | null;
+  updatedAt: string;
+}
+
+async function readFileCredentials(): Promise<Record<string, SerializedYoutubeCredential>> {
+  try {
+    return JSON.parse(await fs.readFile(fileCredentialsPath, 'utf-8')) as Record<
+      string,
+      SerializedYoutubeCredential
+    >;
+  } catch (error: unknown) {
+    if (typeof error === 'object' && error !== null && 'code' in error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ENOENT') return {};
+    }
+    throw error;
+  }
+}
+
+function deserializeCredential(credential: SerializedYoutubeCredential): YoutubeCredential {
+  return {
+    ...credential,
+    connectedAt: credential.connectedAt ? new Date(credential.connectedAt) : null,
+    updatedAt: new Date(credential.updatedAt),
+  };
+}
+
+function mapCredentialRow(row: Record<string, unknown>): YoutubeCredential {
+  return {
+    channelId: String(row.channel_id),
+    encryptedRefreshToken: (row.encrypted_refresh_token as string | null) ?? null,
+    status: row.status as YoutubeCredentialStatus,
+    accountChannelId: (row.account_channel_id as string | null) ?? null,
+    accountChannelTitle: (row.account_channel_title as string | null) ?? null,
+    lastError: (row.last_error as string | null) ?? null,
+    connectedAt: row.connected_at ? new Date(String(row.connected_at)) : null,
+    updatedAt: new Date(String(row.updated_at)),
+  };
+}
+
+export async function saveYoutubeCredential(credential: YoutubeCredential) {
+  if (!hasDatabaseUrl) {
+    await withFileStoreLock(async () => {
+      const credentials = await readFileCredentials();
+      credentials[credential.channelId] = {
+        ...credential,
+        connectedAt: credential.connectedAt ? credential.connectedAt.toISOString() : null,
+        updatedAt: credential.updatedAt.toISOString(),
+      };
+      await fs.mkdir(path.dirname(fileCredentialsPath), { recursive: true });
+      const tempPath = `${fileCredentialsPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(credentials, null, 2), { encoding: 'utf-8', mode: 0o600 });
+      await fs.rename(tempPath, fileCredentialsPath);
+    });
+    return;
+  }
+
+  await sql`
+    INSERT INTO youtube_credentials (
+      channel_id, encrypted_refresh_token, status, account_channel_id, account_channel_title,
+      last_error, connected_at, updated_at
+    )
+    VALUES (
+      ${credential.channelId},
+      ${credential.encryptedRefreshToken},
+      ${credential.status},
+      ${credential.accountChannelId},
+      ${credential.accountChannelTitle},
+      ${credential.lastError},
+      ${credential.connectedAt ? credential.connectedAt.toISOString() : null},
+      ${credential.updatedAt.toISOString()}
+    )
+    ON CONFLICT (channel_id)
+    DO UPDATE SET
+      encrypted_refresh_token = EXCLUDED.encrypted_refresh_token,
+      status = EXCLUDED.status,
+      account_channel_id = EXCLUDED.account_channel_id,
+      account_channel_title = EXCLUDED.account_channel_title,
+      last_error = EXCLUDED.last_error,
+      connected_at = EXCLUDED.connected_at,
+      updated_at = EXCLUDED.updated_at
+  `;
+}
+
+export async function getYoutubeCredential(channelId: string): Promise<YoutubeCredential | null> {
+  if (!hasDatabaseUrl) {
+    const credential = (await readFileCredentials())[channelId];
+    return credential ? deserializeCredential(credential) : null;
+  }
+
+  const { rows } = await sql`SELECT * FROM youtube_credentials WHERE channel_id = ${channelId}`;
+  if (rows.length === 0) return null;
+  return mapCredentialRow(rows[0]);
+}
+
+export async function listYoutubeCredentials(): Promise<YoutubeCredential[]> {
+  if (!hasDatabaseUrl) {
+    return Object.values(await readFileCredentials()).map(deserializeCredential);
+  }
+
+  const { rows } = await sql`SELECT * FROM youtube_credentials ORDER BY channel_id`;
+  return rows.map((row) => mapCredentialRow(row as Record<string, unknown>));
+}
+
+export async function incrementQuotaUsage(
+  day: string,
+  channelId: string,
+  operation: string,
+  calls: number,
+  units: number,
+) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const store = await readFileStore();
+      const entry = store.quotaUsage.find(
+        (existing) =>
+          existing.day === day && existing.channelId === channelId && existing.operation === operation,
+      );
+      if (entry) {
+        entry.calls += calls;
+        entry.units += units;
+      } else {
+        store.quotaUsage.push({ day, channelId, operation, calls, units });
+      }
+      const days = [...new Set(store.quotaUsage.map((existing) => existing.day))].sort();
+      const keep = new Set(days.slice(-MAX_FILE_STORE_QUOTA_DAYS));
+      store.quotaUsage = store.quotaUsage.filter((existing) => keep.has(existing.day));
+      await writeFileStore(store);
+    });
+  }
+
+  await sql`
+    INSERT INTO youtube_quota_usage (day, channel_id, operation, calls, units)
+    VALUES (${day}, ${channelId}, ${operation}, ${calls}, ${units})
+    ON CONFLICT (day, channel_id, operation)
+    DO UPDATE SET
+      calls = youtube_quota_usage.calls + EXCLUDED.calls,
+      units = youtube_quota_usage.units + EXCLUDED.units
+  `;
+}
+
+export async function listQuotaUsage(day: string): Promise<QuotaUsageEntry[]> {
+  if (!hasDatabaseUrl) {
+    const store = await readFileStore();
+    return store.quotaUsage.filter((entry) => entry.day === day);
+  }
+
+  const { rows } = await sql`
+    SELECT * FROM youtube_quota_usage WHERE day = ${day} ORDER BY channel_id, operation
+  `;
+  return rows.map((row) => ({
+    day: String(row.day),
+    channelId: String(row.channel_id),
+    operation: String(row.operation),
+    calls: Number(row.calls),
+    units: Number(row.units),
+  }));
+}
+
+export async function incrementLlmUsage(usage: LlmUsageEntry) {
+  if (!hasDatabaseUrl) {
+    return withFileStoreLock(async () => {
+      const store = await readFileStore();
+      const entry = store.llmUsage.find(
+        (existing) =>
+          existing.day === usage.day && existing.task === usage.task && existing.model === usage.model,
+      );
+      if (entry) {
+        entry.calls += usage.calls;
+        entry.cachedCalls += usage.cachedCalls;
+        entry.inputTokens += usage.inputTokens;
+        entry.outputTokens += usage.outputTokens;
+        entry.costUsd += usage.costUsd;
+      } else {
+        store.llmUsage.push({ ...usage });
+      }
+      const days = [...new Set(store.llmUsage.map((existing) => existing.day))].sort();
+      const keep = new Set(days.slice(-MAX_FILE_STORE_LLM_USAGE_DAYS));
+      store.llmUsage = store.llmUsage.filter((existing) => keep.has(existing.day));
+      await writeFileStore(store);
+    });
+  }
+
+  await sql`
+    INSERT INTO llm_usage (day, task, model, calls, cached_calls, input_tokens, output_tokens, cost_usd)
+    VALUES (
+      ${usage.day},
+      ${usage.task},
+      ${usage.model},
+      ${usage.calls},
+      ${usage.cachedCalls},
+      ${usage.inputTokens},
+      ${usage.outputTokens},
+      ${usage.costUsd}
+    )
+    ON CONFLICT (day, task, model)
+    DO UPDATE SET
+      calls = llm_usage.calls + EXCLUDED.calls,
+      cached_calls = llm_usage.cached_calls + EXCLUDED.cached_calls,
+      input_tokens = llm_usage.input_tokens + EXCLUDED.input_tokens,
+      output_tokens = llm_usage.output_tokens + EXCLUDED.output_tokens,
+      cost_usd = llm_usage.cost_usd + EXCLUDED.cost_usd
+  `;
+}
+
+export async function listLlmUsage(day: string): Promise<LlmUsageEntry[]> {
+  if (!hasDatabaseUrl) {
+    const store = await readFileStore();
+    return store.llmUsage.filter((entry) => entry.day === day);
+  }
+
+  const { rows } = await sql`SELECT * FROM llm_usage WHERE day = ${day} ORDER BY task, model`;
+  return rows.map((row) => ({
+    day: String(row.day),
+    task: String(row.task),
+    model: String(row.model),
+    calls: Number(row.calls),
+    cachedCalls: Number(row.cached_calls),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    costUsd: Number(row.cost_usd),
+  }));
+}
@@ -0,0 +1,238 @@
+import 'server-only';
+
+import { AgentServices } from './agent-services';
+import { isAnalyticsRefreshDue } from './analytics';
+import { describeVideoFile, listVideoFiles } from './fs-utils';
+import { buildVideoMetadata } from './metadata';
+import { augmentMetadataWithTrending } from './trending';
+import { listReadyToUpload, PlaylistAssignment, RunStep, VideoKey, VideoRecord, VideoStatus } from './db';
+import { buildLocalizations, buildUploadTags } from './youtube';
+import { logger } from './logger';
+
+export interface DryRunCall {
+  service: Exclude<keyof AgentServices, 'dryRun'>;
+  filename: string | null;
+  detail: Record<string, unknown>;
+}
+
+export interface DryRunUpload {
+  videoId: string;
+  videoPath: string;
+  thumbnailPath: string | null;
+  title: string;
+  privacyStatus: string | null;
+  categoryId: string | null;
+  scheduleAt: string | null;
+  notifySubscribers: boolean;
+  localizedLanguages: string[];
+  tags: string[];
+}
+
+export interface DryRunPlanEntry {
+  filename: string;
+  channelId: string;
+  status: VideoStatus;
+  scheduledAt: string | null;
+  error: string | null;
+  metadata: Record<string, unknown> | null;
+  upload: DryRunUpload | null;
+  playlists: string[];
+  notification: { target: string; title: string } | null;
+}
+
+export interface DryRunPlan {
+  entries: DryRunPlanEntry[];
+  calls: DryRunCall[];
+  steps: RunStep[];
+}
+
+function isReady(record: VideoRecord, now: Date): boolean {
+  if (record.status === 'failed') return !record.nextAttemptAt || record.nextAttemptAt <= now;
+  if (record.status !== 'scheduled') return false;
+  return !record.scheduledAt || record.scheduledAt <= now;
+}
+
+/**
+ * Recording fakes for every write and external call a run makes. Reads still hit the real
+ * store, overlaid with the records the run would have written, so the queue a dry run walks
+ * is the one a live run would see.
+ */
+export function createDryRunServices(): {
+  services: AgentServices;
+  plan: () => Omit<DryRunPlan, 'steps'>;
+} {
+  const calls: DryRunCall[] = [];
+  const entries = new Map<string, DryRunPlanEntry>();
+  const overlay = new Map<string, VideoRecord>();
+  let activeVideo: VideoKey | null = null;
+  let uploadCount = 0;
+
+  const record = (
+    service: DryRunCall['service'],
+    filename: string | null,
+    detail: Record<string, unknown> = {},
+  ) => {
+    calls.push({ service, filename, detail });
+    logger.debug('Dry run: recorded call', { service, filename });
+  };
+
+  // Paths are only unique within a channel.
+  const keyOf = (video: VideoKey) => `${video.channelId}:${video.filename}`;
+
+  const entryFor = (filename: string, channelId: string, status: VideoStatus) => {
+    let entry = entries.get(keyOf({ channelId, filename }));
+    if (!entry) {
+      entry = {
+        filename,
+        channelId,
+        status,
+        scheduledAt: null,
+        error: null,
+        metadata: null,
+        upload: null,
+        playlists: [],
+        notification: null,
+      };
+      entries.set(keyOf(entry), entry);
+    }
+    return entry;
+  };
+
+  // Scans and LLM calls run for real so the plan is accurate, but keep the hash cache, LLM
+  // cache and usage ledger as they were.
+  const services: AgentServices = {
+    dryRun: true,
+    listVideoFiles: (channel) => listVideoFiles(channel, { persist: false }),
+    describeVideoFile: (filepath, channel) => describeVideoFile(filepath, channel, { persist: false }),
+    buildVideoMetadata: (video) => buildVideoMetadata(video, { persist: false }),
+    augmentMetadataWithTrending: (metadata) => augmentMetadataWithTrending(metadata, { persist: false }),
+    async listReadyToUpload(now) {
+      const live = (await listReadyToUpload(now)).filter((video) => !overlay.has(keyOf(video)));
+      return [...live, ...[...overlay.values()].filter((video) => isReady(video, now))];
+    },
+    async upsertVideoRecord(video) {
+      record('upsertVideoRecord', video.filename, { status: video.status });
+      const entry = entryFor(video.filename, video.channelId ?? 'default', video.status);
+      entry.status = video.status;
+      entry.scheduledAt = video.scheduledAt ? video.scheduledAt.toISOString() : null;
+      entry.error = video.error ?? null;
+      entry.metadata = video.metadata ?? null;
+      const now = new Date();
+      const channelId = video.channelId ?? 'default';
+      overlay.set(keyOf({ channelId, filename: video.filename }), {
+        id: -1,
+        filename: video.filename,
+        channelId,
+        status: video.status,
+        fileHash: video.fileHash ?? null,
+        fileSize: video.fileSize ?? null,
+        scheduledAt: video.scheduledAt ?? null,
+        uploadedAt: null,
+        youtubeVideoId: null,
+        metadata: video.metadata ?? null,
+        analytics: null,
+        media: video.media ?? null,
+        playlistAssignments: [],
+        uploadSession: null,
+        error: video.error ?? null,
+        retryCount: 0,
+        nextAttemptAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+    async markVideoAsProcessing(video) {
+      record('markVideoAsProcessing', video.filename);
+      activeVideo = video;
+      return true;
+    },
+    async markVideoAsUploaded(video, youtubeVideoId) {
+      record('markVideoAsUploaded', video.filename, { youtubeVideoId });
+      const entry = entries.get(keyOf(video));
+      if (entry) entry.status = 'uploaded';
+    },
+    async recordVideoError(video, error, outcome) {
+      record('recordVideoError', video.filename, { error, status: outcome?.status ?? 'failed' });
+      const entry = entries.get(keyOf(video));
+      if (entry) {
+        entry.status = outcome?.status ?? 'failed';
+        entry.error = error;
+      }
+    },
+    async releaseVideoClaim(video) {
+      record('releaseVideoClaim', video.filename);
+    },
+    async saveUploadSession(video) {
+      record('saveUploadSession', video.filename);
+    },
+    async persistMetadataSnapshot(video) {
+      record('persistMetadataSnapshot', video.filename);
+    },
+    async uploadShort(params) {
+      uploadCount += 1;
+      const videoId = `dry-run-${uploadCount}`;
+      const localizedLanguages = Object.keys(buildLocalizations(params.metadata));
+      record('uploadShort', activeVideo?.filename ?? null, { videoPath: params.videoPath, videoId });
+      if (activeVideo) {
+        const overlaid = overlay.get(keyOf(activeVideo));
+        const entry = entryFor(activeVideo.filename, activeVideo.channelId, overlaid?.status ?? 'scheduled');
+        entry.metadata ??= overlaid?.metadata ?? { ...params.metadata };
+        entry.scheduledAt ??= params.scheduleAt ? params.scheduleAt.toISOString() : null;
+        entry.upload = {
+          videoId,
+          videoPath: params.videoPath,
+          thumbnailPath: params.thumbnailPath ?? null,
+          title: params.metadata.title,
+          privacyStatus: params.metadata.privacyStatus ?? null,
+          categoryId: params.metadata.categoryId ?? null,
+          scheduleAt: params.scheduleAt ? params.scheduleAt.toISOString() : null,
+          notifySubscribers: params.notifySubscribers ?? false,
+          localizedLanguages,
+          tags: buildUploadTags(params.metadata.tags, params.fingerprint),
+        };
+      }
+      return {
+        videoId,
+        scheduledPublishTime: params.scheduleAt?.toISOString(),
+        localizedLanguages,
+      };
+    },
+    async syncPlaylistAssignments(video, youtubeVideoId, playlistIds) {
+      record('syncPlaylistAssignments', video.filename, { youtubeVideoId, playlistIds });
+      const entry = entries.get(keyOf(video));
+      if (entry) entry.playlists = playlistIds;
+      const attemptedAt = new Date().toISOString();
+      return playlistIds.map(
+        (playlistId): PlaylistAssignment => ({
+          playlistId,
+          status: 'added',
+          playlistItemId: null,
+          error: null,
+          attemptedAt,
+        }),
+      );
+    },
+    async retryFailedPlaylistAssignments() {
+      record('retryFailedPlaylistAssignments', null);
+    },
+    async sendUploadNotification(summary, channel) {
+      record('sendUploadNotification', summary.filename, { target: channel.notificationChannel });
+      const entry = entries.get(keyOf({ channelId: channel.id, filename: summary.filename }));
+      if (entry) entry.notification = { target: channel.notificationChannel, title: summary.title };
+    },
+    async refreshAnalyticsForVideos(videos, now = new Date()) {
+      const due = videos.filter((video) => isAnalyticsRefreshDue(video, now)).length;
+      record('refreshAnalyticsForVideos', null, { videos: videos.length, due });
+      return due;
+    },
+    async recoverStuckUploads() {
+      record('recoverStuckUploads', null);
+      return [];
+    },
+  };
+
+  return {
+    services,
+    plan: () => ({ entries: [...entries.values()], calls: [...calls] }),
+  };
+}
@@ -0,0 +1,148 @@
+import 'server-only';
+
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { getConfig } from './config';
+import { logger } from './logger';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+const SAMPLE_WIDTH = 90;
+const SAMPLE_HEIGHT = 160;
+const EDGE_MARGIN = 0.05;
+
+export interface FrameCandidate {
+  time: number;
+  sharpness: number;
+  brightness: number;
+  contrast: number;
+  score: number;
+}
+
+export interface FrameSelection {
+  mode: 'scored' | 'explicit' | 'fixed';
+  chosenTime: number | string;
+  candidates: FrameCandidate[];
+}
+
+function readGrayFrame(filepath: string, time: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const command = ffmpeg(filepath)
+      .seekInput(time)
+      .frames(1)
+      .outputOptions([
+        '-vf',
+        `scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT}:force_original_aspect_ratio=increase,crop=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT},format=gray`,
+        '-f',
+        'rawvideo',
+      ])
+      .on('error', (error) => reject(error));
+    const stream = command.pipe();
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+function measureFrame(pixels: Buffer) {
+  const count = SAMPLE_WIDTH * SAMPLE_HEIGHT;
+  let sum = 0;
+  for (let i = 0; i < count; i += 1) sum += pixels[i];
+  const mean = sum / count;
+
+  let variance = 0;
+  for (let i = 0; i < count; i += 1) variance += (pixels[i] - mean) ** 2;
+  const stdDev = Math.sqrt(variance / count);
+
+  // Variance of the 4-neighbour Laplacian: blurry or mid-transition frames have weak edges.
+  const laplacians: number[] = [];
+  for (let y = 1; y < SAMPLE_HEIGHT - 1; y += 1) {
+    for (let x = 1; x < SAMPLE_WIDTH - 1; x += 1) {
+      const i = y * SAMPLE_WIDTH + x;
+      laplacians.push(
+        pixels[i - 1] + pixels[i + 1] + pixels[i - SAMPLE_WIDTH] + pixels[i + SAMPLE_WIDTH] - 4 * pixels[i],
+      );
+    }
+  }
+  const lapMean = laplacians.reduce((acc, value) => acc + value, 0) / laplacians.length;
+  const lapVariance =
+    laplacians.reduce((acc, value) => acc + (value - lapMean) ** 2, 0) / laplacians.length;
+
+  return { mean, stdDev, lapVariance };
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function candidateTimes(durationSeconds: number, count: number): number[] {
+  if (count <= 1) return [durationSeconds / 2];
+  const start = durationSeconds * EDGE_MARGIN;
+  const span = durationSeconds * (1 - EDGE_MARGIN * 2);
+  return Array.from({ length: count }, (_, index) => round(start + (span * index) / (count - 1)));
+}
+
+export async function scoreFrames(filepath: string, durationSeconds: number): Promise<FrameCandidate[]> {
+  const { thumbnailCandidateFrames } = getConfig();
+  const measured: { time: number; mean: number; stdDev: number; lapVariance: number }[] = [];
+
+  for (const time of candidateTimes(durationSeconds, thumbnailCandidateFrames)) {
+    try {
+      const pixels = await readGrayFrame(filepath, time);
+      if (pixels.length < SAMPLE_WIDTH * SAMPLE_HEIGHT) continue;
+      measured.push({ time, ...measureFrame(pixels) });
+    } catch (error) {
+      logger.debug('Failed to sample thumbnail candidate frame', { filepath, time, error });
+    }
+  }
+
+  const maxLapVariance = Math.max(1, ...measured.map((frame) => frame.lapVariance));
+  return measured.map((frame) => {
+    const sharpness = frame.lapVariance / maxLapVariance;
+    const brightness = 1 - Math.abs(frame.mean - 128) / 128;
+    const contrast = Math.min(frame.stdDev / 64, 1);
+    return {
+      time: frame.time,
+      sharpness: round(sharpness),
+      brightness: round(brightness),
+      contrast: round(contrast),
+      score: round(sharpness * 0.5 + brightness * 0.25 + contrast * 0.25),
+    };
+  });
+}
+
+function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number') return value;
+  const parts = value.split(':').map((part) => Number(part));
+  if (parts.some((part) => !Number.isFinite(part))) return null;
+  return parts.reduce((acc, part) => acc * 60 + part, 0);
+}
+
+export async function selectThumbnailFrame(
+  filepath: string,
+  durationSeconds: number | null,
+  explicitTime: string | number | undefined,
+): Promise<FrameSelection> {
+  const config = getConfig();
+
+  const clampToDuration = (time: string | number): string | number => {
+    const seconds = parseTimestamp(time);
+    if (durationSeconds == null || seconds == null || seconds < durationSeconds) return time;
+    return round(durationSeconds / 2);
+  };
+
+  if (explicitTime != null) {
+    return { mode: 'explicit', chosenTime: clampToDuration(explicitTime), candidates: [] };
+  }
+
+  if (config.thumbnailFrameSelection === 'auto' && durationSeconds) {
+    const candidates = await scoreFrames(filepath, durationSeconds);
+    if (candidates.length > 0) {
+      const best = candidates.reduce((acc, candidate) => (candidate.score > acc.score ? candidate : acc));
+      return { mode: 'scored', chosenTime: best.time, candidates };
+    }
+    logger.warn('No thumbnail candidate frames could be scored, using fixed frame', { filepath });
+  }
+
+  return { mode: 'fixed', chosenTime: clampToDuration(config.thumbnailFrameTime), candidates: [] };
+}
@@ -1,77 +1,188 @@
 import 'server-only';
 
-import crypto from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { getConfig } from './config';
+import { ChannelConfig, findChannelForPath, getChannels } from './channels';
+import { flushHashCache, getFileHash, pruneHashCache } from './hash-cache';
+import { logger } from './logger';
+import { parseMetadataFile, SidecarMetadata } from './sidecar';
 
 const VIDEO_EXTENSIONS = new Set(['.mp4', '.mov', '.m4v']);
-const METADATA_EXTENSIONS = ['.json', '.txt', '.md'];
+const METADATA_EXTENSIONS = ['.json', '.yaml', '.yml', '.txt', '.md'];
+const FOLDER_DEFAULTS_FILE = '_defaults.json';
 
 export interface VideoFileDescriptor {
   filepath: string;
+  /** Channel-scoped path relative to the channel's content folder; the record key for the video. */
   filename: string;
+  channelId: string;
+  /** Folder the video sits in relative to the channel's content folder, or null for top-level files. */
+  series: string | null;
   hash: string | null;
   size: number;
   durationSeconds: number | null;
 }
 
-async function computeFileHash(filepath: string): Promise<string> {
-  const hash = crypto.createHash('sha256');
-  const file = await fs.open(filepath, 'r');
-  try {
-    const stream = file.createReadStream();
-    for await (const chunk of stream) {
-      hash.update(chunk as Buffer);
+export interface MetadataFileEntry {
+  filepath: string;
+  /** The video the sidecar describes, or null for a folder's `_defaults.json`. */
+  videoPath: string | null;
+  /** Another sidecar of the same video that is read instead of this one. */
+  shadowedBy: string | null;
+}
+
+export function isVideoFile(filename: string): boolean {
+  return VIDEO_EXTENSIONS.has(path.extname(filename).toLowerCase());
+}
+
+/**
+ * Flattens a content-relative filename into a name that is safe to use inside `tempDir`, which
+ * every channel shares. The channel id always leads, so a default-channel folder named like
+ * another channel can't collide with that channel's files.
+ */
+export function tempBaseName(video: Pick<VideoFileDescriptor, 'filename' | 'channelId'>): string {
+  const withoutExt = video.filename.slice(0, video.filename.length - path.extname(video.filename).length);
+  return [video.channelId, ...withoutExt.split('/')].join('__');
+}
+
+export function buildVideoDescriptor(
+  channel: ChannelConfig,
+  filepath: string,
+  stats: { hash: string | null; size: number },
+): VideoFileDescriptor {
+  const relativePath = path.relative(channel.contentDir, filepath).split(path.sep).join('/');
+  const series = path.posix.dirname(relativePath);
+  return {
+    filepath,
+    filename: relativePath,
+    channelId: channel.id,
+    series: series === '.' ? null : series,
+    hash: stats.hash,
+    size: stats.size,
+    durationSeconds: null,
+  };
+}
+
+// Leaves a new hash in memory; callers flush the hash cache once they are done.
+async function describeWithoutFlush(
+  filepath: string,
+  channel: ChannelConfig,
+  options: { persist?: boolean },
+): Promise<VideoFileDescriptor | null> {
+  const stat = await fs.stat(filepath);
+  if (!stat.isFile() || !isVideoFile(filepath)) return null;
+  return buildVideoDescriptor(channel, filepath, {
+    hash: await getFileHash(filepath, stat, options),
+    size: stat.size,
+  });
+}
+
+export async function describeVideoFile(
+  filepath: string,
+  channel: ChannelConfig | null = findChannelForPath(filepath),
+  { persist = true }: { persist?: boolean } = {},
+): Promise<VideoFileDescriptor | null> {
+  if (!channel) {
+    logger.warn('Video is outside every channel content folder', { filepath });
+    return null;
+  }
+  const video = await describeWithoutFlush(filepath, channel, { persist });
+  if (persist) await flushHashCache();
+  return video;
+}
+
+async function walkFiles(
+  dir: string,
+  excludedDirs: Set<string>,
+  include: (name: string) => boolean,
+  found: string[],
+) {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!excludedDirs.has(entryPath)) await walkFiles(entryPath, excludedDirs, include, found);
+    } else if (include(entry.name)) {
+      found.push(entryPath);
     }
-  } finally {
-    await file.close();
   }
-  return hash.digest('hex');
 }
 
-async function probeDuration(): Promise<number | null> {
-  // Implementing a lightweight probe using fluent-ffmpeg would add native deps.
-  // Instead, we defer detailed duration inspection until ffmpeg is available.
-  return null;
+/** Another channel's folder nested inside this one belongs to that channel only. */
+function nestedChannelDirs(channel: ChannelConfig): Set<string> {
+  return new Set(
+    getChannels()
+      .filter((other) => other.id !== channel.id)
+      .map((other) => other.contentDir),
+  );
 }
 
-export async function listVideoFiles(): Promise<VideoFileDescriptor[]> {
-  const { contentDir } = getConfig();
-  const entries = await fs.readdir(contentDir).catch(async (error: unknown) => {
+/** `persist: false` (dry runs) leaves the hash cache untouched. */
+export async function listVideoFiles(
+  channel: ChannelConfig,
+  { persist = true }: { persist?: boolean } = {},
+): Promise<VideoFileDescriptor[]> {
+  const { contentDir } = channel;
+  const filepaths: string[] = [];
+  await walkFiles(contentDir, nestedChannelDirs(channel), isVideoFile, filepaths).catch(async (error: unknown) => {
     if (typeof error === 'object' && error !== null && 'code' in error) {
       const code = (error as { code?: string }).code;
       if (code === 'ENOENT') {
         await fs.mkdir(contentDir, { recursive: true });
-        return [];
+        return;
       }
     }
     throw error;
   });
 
   const videos: VideoFileDescriptor[] = [];
-
-  for (const entry of entries) {
-    const filepath = path.join(contentDir, entry);
-    const stat = await fs.stat(filepath);
-    if (stat.isDirectory()) continue;
-    const ext = path.extname(entry).toLowerCase();
-    if (!VIDEO_EXTENSIONS.has(ext)) continue;
-    const hash = await computeFileHash(filepath);
-    const durationSeconds = await probeDuration();
-
-    videos.push({
-      filepath,
-      filename: entry,
-      hash,
-      size: stat.size,
-      durationSeconds,
-    });
+  for (const filepath of filepaths.sort()) {
+    const video = await describeWithoutFlush(filepath, channel, { persist });
+    if (video) videos.push(video);
   }
 
+  if (persist) {
+    await pruneHashCache(contentDir, new Set(videos.map((video) => video.filepath)));
+    await flushHashCache();
+  }
   return videos;
 }
 
+/**
+ * Lists the channel's metadata files: every video's sidecars, in the order `findMetadataFile` tries
+ * them, and every folder's `_defaults.json`.
+ */
+export async function listMetadataFiles(channel: ChannelConfig): Promise<MetadataFileEntry[]> {
+  const filepaths: string[] = [];
+  const include = (name: string) =>
+    name === FOLDER_DEFAULTS_FILE || isVideoFile(name) || METADATA_EXTENSIONS.includes(path.extname(name).toLowerCase());
+  try {
+    await walkFiles(channel.contentDir, nestedChannelDirs(channel), include, filepaths);
+  } catch (error: unknown) {
+    if (typeof error === 'object' && error !== null && 'code' in error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ENOENT') return [];
+    }
+    throw error;
+  }
+
+  const existing = new Set(filepaths);
+  const entries: MetadataFileEntry[] = [];
+  for (const filepath of filepaths.sort()) {
+    if (path.basename(filepath) === FOLDER_DEFAULTS_FILE) {
+      entries.push({ filepath, videoPath: null, shadowedBy: null });
+    } else if (isVideoFile(filepath)) {
+      const base = filepath.slice(0, filepath.length - path.extname(filepath).length);
+      const sidecars = METADATA_EXTENSIONS.map((ext) => `${base}${ext}`).filter((candidate) => existing.has(candidate));
+      for (const sidecar of sidecars) {
+        entries.push({ filepath: sidecar, videoPath: filepath, shadowedBy: sidecar === sidecars[0] ? null : sidecars[0] });
+      }
+    }
+  }
+  return entries;
+}
+
 export async function findMetadataFile(videoPath: string): Promise<string | null> {
   const baseName = path.basename(videoPath, path.extname(videoPath));
   const dir = path.dirname(videoPath);
@@ -93,24 +204,10 @@ export async function findMetadataFile(videoPath: string): Promise<string | null
   return null;
 }
 
-export async function readMetadataFile(filepath: string): Promise<Record<string, unknown> | null> {
+/** Reads and validates a sidecar; see `lib/sidecar.ts` for the formats and keys it accepts. */
+export async function readMetadataFile(filepath: string): Promise<SidecarMetadata | null> {
   try {
-    const content = await fs.readFile(filepath, 'utf-8');
-    if (filepath.endsWith('.json')) {
-      return JSON.parse(content);
-    }
-    if (filepath.endsWith('.txt') || filepath.endsWith('.md')) {
-      const lines = content.split('\n').map((line) => line.trim());
-      const metadata: Record<string, unknown> = {};
-      for (const line of lines) {
-        if (!line || line.startsWith('#')) continue;
-        const [key, ...rest] = line.split(':');
-        if (!key || rest.length === 0) continue;
-        metadata[key.trim().toLowerCase()] = rest.join(':').trim();
-      }
-      return metadata;
-    }
-    return null;
+    return parseMetadataFile(filepath, await fs.readFile(filepath, 'utf-8'));
   } catch (error: unknown) {
     if (typeof error === 'object' && error !== null && 'code' in error) {
       const code = (error as { code?: string }).code;
@@ -121,3 +218,32 @@ export async function readMetadataFile(filepath: string): Promise<Record<string,
     throw error;
   }
 }
+
+/**
+ * Merges every `_defaults.json` between the channel's content folder and the video's folder, deeper folders
+ * overriding shallower ones. Returns null when no folder defines defaults.
+ */
+export async function readFolderDefaults(
+  videoPath: string,
+  contentDir: string,
+): Promise<SidecarMetadata | null> {
+  const relativeDir = path.relative(contentDir, path.dirname(videoPath));
+  if (relativeDir.startsWith('..')) return null;
+
+  const folders = [contentDir];
+  for (const segment of relativeDir.split(path.sep).filter(Boolean)) {
+    folders.push(path.join(folders[folders.length - 1], segment));
+  }
+
+  let merged: SidecarMetadata | null = null;
+  for (const folder of folders) {
+    const defaultsPath = path.join(folder, FOLDER_DEFAULTS_FILE);
+    try {
+      const defaults = await readMetadataFile(defaultsPath);
+      if (defaults) merged = { ...(merged ?? {}), ...defaults };
+    } catch (error) {
+      logger.warn('Ignoring unreadable folder defaults', { defaultsPath, error });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,118 @@
+import 'server-only';
+
+import crypto from 'crypto';
+import { promises as fs, Stats } from 'fs';
+import path from 'path';
+import { getConfig } from './config';
+import { logger } from './logger';
+
+interface HashCacheEntry {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+let cache: Map<string, HashCacheEntry> | null = null;
+/** Changes since the last `flushHashCache`: the new entry, or null for a removed file. */
+const pending = new Map<string, HashCacheEntry | null>();
+
+function cacheFilePath(): string {
+  const { hashCacheFile } = getConfig();
+  return path.isAbsolute(hashCacheFile) ? hashCacheFile : path.join(process.cwd(), hashCacheFile);
+}
+
+async function computeFileHash(filepath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const file = await fs.open(filepath, 'r');
+  try {
+    const stream = file.createReadStream();
+    for await (const chunk of stream) {
+      hash.update(chunk as Buffer);
+    }
+  } finally {
+    await file.close();
+  }
+  return hash.digest('hex');
+}
+
+async function readHashCacheFile(): Promise<Map<string, HashCacheEntry>> {
+  try {
+    const content = await fs.readFile(cacheFilePath(), 'utf-8');
+    return new Map(Object.entries(JSON.parse(content) as Record<string, HashCacheEntry>));
+  } catch (error: unknown) {
+    const code = typeof error === 'object' && error !== null && 'code' in error
+      ? (error as { code?: string }).code
+      : undefined;
+    if (code !== 'ENOENT') {
+      logger.warn('Failed to read hash cache, starting empty', { error });
+    }
+    return new Map();
+  }
+}
+
+async function loadHashCache(): Promise<Map<string, HashCacheEntry>> {
+  cache ??= await readHashCacheFile();
+  return cache;
+}
+
+async function saveHashCache(entries: Map<string, HashCacheEntry>) {
+  const filePath = cacheFilePath();
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(entries), null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    logger.warn('Failed to persist hash cache', { error });
+  }
+}
+
+// A file is only rehashed when its size or mtime changes, so unchanged clips cost one stat per scan.
+// New hashes are kept in memory until `flushHashCache`; dry runs pass `persist: false` and leave
+// the cache as it was.
+export async function getFileHash(
+  filepath: string,
+  stat: Stats,
+  { persist = true }: { persist?: boolean } = {},
+): Promise<string> {
+  const entries = await loadHashCache();
+  const cached = entries.get(filepath);
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    return cached.hash;
+  }
+
+  const hash = await computeFileHash(filepath);
+  if (!persist) return hash;
+  const entry = { size: stat.size, mtimeMs: stat.mtimeMs, hash };
+  entries.set(filepath, entry);
+  pending.set(filepath, entry);
+  return hash;
+}
+
+/** Forgets files under `directory` that are gone; like new hashes, this waits for a flush. */
+export async function pruneHashCache(directory: string, existingPaths: Set<string>) {
+  const entries = await loadHashCache();
+  for (const cachedPath of entries.keys()) {
+    if (cachedPath.startsWith(`${directory}${path.sep}`) && !existingPaths.has(cachedPath)) {
+      entries.delete(cachedPath);
+      pending.set(cachedPath, null);
+    }
+  }
+}
+
+/**
+ * Writes the changes since the last flush in one go. The file is read again first, so entries
+ * another process saved in the meantime are kept rather than overwritten.
+ */
+export async function flushHashCache() {
+  if (pending.size === 0) return;
+  const changes = [...pending];
+  pending.clear();
+  const entries = await readHashCacheFile();
+  for (const [filepath, entry] of changes) {
+    if (entry) entries.set(filepath, entry);
+    else entries.delete(filepath);
+  }
+  cache = entries;
+  await saveHashCache(entries);
+}
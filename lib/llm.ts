@@ -0,0 +1,251 @@
+import 'server-only';
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { OpenAI } from 'openai';
+import { getConfig } from './config';
+import { incrementLlmUsage, listLlmUsage, LlmUsageEntry } from './db';
+import { logger } from './logger';
+
+export type LlmTask = 'metadata' | 'translation' | 'trending' | 'analytics';
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  cached: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  /** Null when the model has no known price. */
+  costUsd: number | null;
+}
+
+export interface LlmUsage {
+  day: string;
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  byTask: Record<string, LlmUsageEntry[]>;
+}
+
+interface CachedLlmResponse {
+  model: string;
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  createdAt: string;
+}
+
+// USD per million tokens, from OpenAI's published list prices.
+const OPENAI_PRICES_PER_MILLION: Record<string, { input: number; output: number }> = {
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+let cachedClient: OpenAI | null = null;
+
+function getClient(): OpenAI | null {
+  if (cachedClient) return cachedClient;
+  const config = getConfig();
+  const apiKey = config.llmApiKey ?? config.openAiApiKey;
+  const options = {
+    timeout: config.llmTimeoutSeconds * 1000,
+    maxRetries: config.llmMaxRetries,
+  };
+
+  if (config.llmProvider === 'openai-compatible') {
+    if (!config.llmBaseUrl) return null;
+    // Local servers (Ollama, llama.cpp) ignore the key, but the client insists on one.
+    cachedClient = new OpenAI({ ...options, baseURL: config.llmBaseUrl, apiKey: apiKey ?? 'local' });
+  } else {
+    if (!apiKey) return null;
+    cachedClient = new OpenAI({ ...options, apiKey, baseURL: config.llmBaseUrl });
+  }
+  return cachedClient;
+}
+
+export function isLlmConfigured(): boolean {
+  return getClient() !== null;
+}
+
+export function modelForTask(task: LlmTask): string {
+  const config = getConfig();
+  const overrides: Record<LlmTask, string | undefined> = {
+    metadata: config.llmModelMetadata,
+    translation: config.llmModelTranslation,
+    trending: config.llmModelTrending,
+    analytics: config.llmModelAnalytics,
+  };
+  return overrides[task] ?? config.llmModel;
+}
+
+export function estimateLlmCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const config = getConfig();
+  const listed = config.llmProvider === 'openai' ? OPENAI_PRICES_PER_MILLION[model] : { input: 0, output: 0 };
+  const input = config.llmInputCostPerMillion ?? listed?.input;
+  const output = config.llmOutputCostPerMillion ?? listed?.output;
+  if (input == null || output == null) return null;
+  return (inputTokens * input + outputTokens * output) / 1_000_000;
+}
+
+function usageDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function cacheFilePath(key: string): string {
+  const { llmCacheDir } = getConfig();
+  const dir = path.isAbsolute(llmCacheDir) ? llmCacheDir : path.join(process.cwd(), llmCacheDir);
+  return path.join(dir, `${key}.json`);
+}
+
+function cacheKey(model: string, prompt: string, json: boolean): string {
+  const { llmProvider, llmBaseUrl } = getConfig();
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ provider: llmProvider, baseUrl: llmBaseUrl ?? null, model, prompt, json }))
+    .digest('hex');
+}
+
+async function readCachedResponse(key: string): Promise<CachedLlmResponse | null> {
+  const { llmCacheTtlDays } = getConfig();
+  if (llmCacheTtlDays === 0) return null;
+  try {
+    const entry = JSON.parse(await fs.readFile(cacheFilePath(key), 'utf-8')) as CachedLlmResponse;
+    const ageMs = Date.now() - Date.parse(entry.createdAt);
+    if (!(ageMs <= llmCacheTtlDays * 24 * 60 * 60 * 1000)) return null;
+    return entry;
+  } catch (error: unknown) {
+    if (typeof error === 'object' && error !== null && 'code' in error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'ENOENT') return null;
+    }
+    logger.warn('Ignoring unreadable LLM cache entry', { key, error });
+    return null;
+  }
+}
+
+async function writeCachedResponse(key: string, entry: CachedLlmResponse) {
+  if (getConfig().llmCacheTtlDays === 0) return;
+  const filePath = cacheFilePath(key);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    logger.warn('Failed to write LLM cache entry', { key, error });
+  }
+}
+
+async function recordLlmUsage(task: LlmTask, response: LlmResponse) {
+  try {
+    await incrementLlmUsage({
+      day: usageDay(),
+      task,
+      model: response.model,
+      calls: 1,
+      cachedCalls: response.cached ? 1 : 0,
+      inputTokens: response.cached ? 0 : response.inputTokens,
+      outputTokens: response.cached ? 0 : response.outputTokens,
+      costUsd: response.costUsd ?? 0,
+    });
+  } catch (error) {
+    logger.warn('Failed to record LLM usage', { task, model: response.model, error });
+  }
+}
+
+/** With `persist: false` (dry runs) a call reads the response cache but writes nothing. */
+export interface LlmWriteOptions {
+  persist?: boolean;
+}
+
+/**
+ * Sends one prompt to the configured provider using the model configured for `task`.
+ * Identical prompts are answered from the on-disk cache for `LLM_CACHE_TTL_DAYS`.
+ * Returns null when no provider is configured; request errors are thrown after the client's
+ * own retries.
+ */
+export async function generateText(
+  task: LlmTask,
+  prompt: string,
+  { json = false, persist = true }: { json?: boolean } & LlmWriteOptions = {},
+): Promise<LlmResponse | null> {
+  const client = getClient();
+  if (!client) return null;
+
+  const model = modelForTask(task);
+  const key = cacheKey(model, prompt, json);
+  const cached = await readCachedResponse(key);
+  if (cached) {
+    const response: LlmResponse = { ...cached, cached: true, costUsd: 0 };
+    logger.debug('LLM response served from cache', { task, model });
+    if (persist) await recordLlmUsage(task, response);
+    return response;
+  }
+
+  const startedAt = Date.now();
+  const completion = await client.chat.completions.create({
+    model,
+    messages: [{ role: 'user', content: prompt }],
+    ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+  const inputTokens = completion.usage?.prompt_tokens ?? 0;
+  const outputTokens = completion.usage?.completion_tokens ?? 0;
+  const response: LlmResponse = {
+    text: completion.choices[0]?.message?.content ?? '',
+    model,
+    cached: false,
+    inputTokens,
+    outputTokens,
+    costUsd: estimateLlmCost(model, inputTokens, outputTokens),
+  };
+  logger.debug('LLM request completed', {
+    task,
+    model,
+    inputTokens,
+    outputTokens,
+    costUsd: response.costUsd,
+    durationMs: Date.now() - startedAt,
+  });
+
+  if (!persist) return response;
+  if (response.text) {
+    await writeCachedResponse(key, {
+      model,
+      text: response.text,
+      inputTokens,
+      outputTokens,
+      createdAt: new Date().toISOString(),
+    });
+  }
+  await recordLlmUsage(task, response);
+  return response;
+}
+
+export async function getLlmUsage(now = new Date()): Promise<LlmUsage> {
+  const day = usageDay(now);
+  const entries = await listLlmUsage(day);
+  const usage: LlmUsage = {
+    day,
+    calls: 0,
+    cachedCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    byTask: {},
+  };
+  for (const entry of entries) {
+    usage.calls += entry.calls;
+    usage.cachedCalls += entry.cachedCalls;
+    usage.inputTokens += entry.inputTokens;
+    usage.outputTokens += entry.outputTokens;
+    usage.costUsd += entry.costUsd;
+    usage.byTask[entry.task] = [...(usage.byTask[entry.task] ?? []), entry];
+  }
+  return usage;
+}
@@ -0,0 +1,89 @@
+import 'server-only';
+
+import { getConfig, SUPPORTED_TRANSLATION_LANGS } from './config';
+import { listUploadedVideos, updateVideoMetadata } from './db';
+import { toVideoMetadata, translateMetadata } from './metadata';
+import { updateVideoLocalizations } from './youtube';
+import { logger } from './logger';
+
+export interface LocalizationBackfillResult {
+  checked: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+export async function backfillLocalizations(
+  options: { force?: boolean } = {},
+): Promise<LocalizationBackfillResult> {
+  const config = getConfig();
+  const languages = config.enableTranslations ? SUPPORTED_TRANSLATION_LANGS() : [];
+  const result: LocalizationBackfillResult = {
+    checked: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  for (const record of await listUploadedVideos()) {
+    result.checked += 1;
+    if (!options.force && record.metadata?.localizationsSyncedAt) {
+      result.skipped += 1;
+      continue;
+    }
+
+    const metadata = toVideoMetadata(record.metadata);
+    if (!metadata || !record.youtubeVideoId) {
+      result.skipped += 1;
+      continue;
+    }
+
+    try {
+      const missing = languages.filter(
+        (lang) =>
+          lang !== metadata.language &&
+          (!metadata.translatedTitles?.[lang] || !metadata.translatedDescriptions?.[lang]),
+      );
+      if (missing.length > 0) {
+        const translated = await translateMetadata(metadata, missing);
+        metadata.translatedTitles = { ...metadata.translatedTitles, ...translated.translatedTitles };
+        metadata.translatedDescriptions = {
+          ...metadata.translatedDescriptions,
+          ...translated.translatedDescriptions,
+        };
+      }
+
+      const localizedLanguages = await updateVideoLocalizations(
+        record.channelId,
+        record.youtubeVideoId,
+        metadata,
+      );
+      if (localizedLanguages.length === 0) {
+        result.skipped += 1;
+        continue;
+      }
+
+      await updateVideoMetadata(record, {
+        ...record.metadata,
+        translatedTitles: metadata.translatedTitles,
+        translatedDescriptions: metadata.translatedDescriptions,
+        localizedLanguages,
+        localizationsSyncedAt: new Date().toISOString(),
+      });
+      result.updated += 1;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+      result.failed += 1;
+      result.errors.push(`${record.filename}: ${errorMessage}`);
+      logger.error('Failed to backfill localizations', {
+        filename: record.filename,
+        error: errorMessage,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,138 @@
+import 'server-only';
+
+import ffmpeg, { FfprobeData, FfprobeStream } from 'fluent-ffmpeg';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
+import { getConfig } from './config';
+import { VideoFileDescriptor } from './fs-utils';
+
+ffmpeg.setFfprobePath(ffprobeInstaller.path);
+
+export interface MediaInfo {
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  aspectRatio: number | null;
+  orientation: 'portrait' | 'landscape' | 'square' | null;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  frameRate: number | null;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  rotation: number;
+  formatName: string | null;
+  bitRate: number | null;
+}
+
+function parseFrameRate(value: string | undefined): number | null {
+  if (!value) return null;
+  const [numerator, denominator] = value.split('/').map((part) => Number(part));
+  if (!Number.isFinite(numerator) || numerator <= 0) return null;
+  if (!denominator) return numerator;
+  return Math.round((numerator / denominator) * 100) / 100;
+}
+
+function parseNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function readRotation(stream: FfprobeStream): number {
+  const sideData = Array.isArray(stream.side_data_list) ? stream.side_data_list : [];
+  const displayMatrix = sideData.find(
+    (entry: Record<string, unknown>) => entry && entry.rotation != null,
+  ) as { rotation?: number | string } | undefined;
+  const raw = stream.rotation ?? stream.tags?.rotate ?? displayMatrix?.rotation ?? 0;
+  const degrees = Number(raw);
+  if (!Number.isFinite(degrees)) return 0;
+  return ((Math.round(degrees) % 360) + 360) % 360;
+}
+
+function probe(filepath: string): Promise<FfprobeData> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filepath, (error, data) => {
+      if (error) reject(error);
+      else resolve(data);
+    });
+  });
+}
+
+export async function inspectMedia(filepath: string): Promise<MediaInfo> {
+  const data = await probe(filepath);
+  const videoStream = data.streams.find(
+    (stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic,
+  );
+  const audioStream = data.streams.find((stream) => stream.codec_type === 'audio');
+
+  const rotation = videoStream ? readRotation(videoStream) : 0;
+  const swapAxes = rotation === 90 || rotation === 270;
+  const codedWidth = videoStream?.width ?? null;
+  const codedHeight = videoStream?.height ?? null;
+  const width = swapAxes ? codedHeight : codedWidth;
+  const height = swapAxes ? codedWidth : codedHeight;
+  const aspectRatio = width && height ? Math.round((width / height) * 1000) / 1000 : null;
+
+  let orientation: MediaInfo['orientation'] = null;
+  if (width && height) {
+    orientation = width === height ? 'square' : width > height ? 'landscape' : 'portrait';
+  }
+
+  return {
+    durationSeconds:
+      parseNumber(data.format.duration) ?? parseNumber(videoStream?.duration) ?? null,
+    width,
+    height,
+    aspectRatio,
+    orientation,
+    videoCodec: videoStream?.codec_name ?? null,
+    audioCodec: audioStream?.codec_name ?? null,
+    frameRate: parseFrameRate(videoStream?.avg_frame_rate) ?? parseFrameRate(videoStream?.r_frame_rate),
+    hasVideo: Boolean(videoStream),
+    hasAudio: Boolean(audioStream),
+    rotation,
+    formatName: data.format.format_name ?? null,
+    bitRate: parseNumber(data.format.bit_rate),
+  };
+}
+
+export function findShortsIneligibility(media: MediaInfo): string | null {
+  const { shortsMaxDurationSeconds, enableVideoProcessing, maxOutputDurationSeconds } = getConfig();
+  if (!media.hasVideo) {
+    return 'No video stream found';
+  }
+  if (media.durationSeconds == null) {
+    return 'Could not determine video duration';
+  }
+  const trimsToLimit =
+    enableVideoProcessing &&
+    maxOutputDurationSeconds != null &&
+    maxOutputDurationSeconds <= shortsMaxDurationSeconds;
+  if (media.durationSeconds > shortsMaxDurationSeconds && !trimsToLimit) {
+    return `Duration ${media.durationSeconds.toFixed(1)}s exceeds the Shorts limit of ${shortsMaxDurationSeconds}s`;
+  }
+  if (media.orientation === 'landscape' && !enableVideoProcessing) {
+    return `Landscape video (${media.width}x${media.height}) is not eligible as a Short`;
+  }
+  return null;
+}
+
+export interface InspectedVideo {
+  video: VideoFileDescriptor;
+  media: MediaInfo | null;
+  rejection: string | null;
+}
+
+export async function inspectVideoFile(video: VideoFileDescriptor): Promise<InspectedVideo> {
+  let media: MediaInfo;
+  try {
+    media = await inspectMedia(video.filepath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : 'Unknown error';
+    return { video, media: null, rejection: `Unable to read media: ${message}` };
+  }
+
+  return {
+    video: { ...video, durationSeconds: media.durationSeconds },
+    media,
+    rejection: findShortsIneligibility(media),
+  };
+}
@@ -2,9 +2,10 @@ import 'server-only';
 
 import fs from 'fs/promises';
 import path from 'path';
-import { OpenAI } from 'openai';
-import { getConfig, SUPPORTED_TRANSLATION_LANGS } from './config';
-import { findMetadataFile, readMetadataFile, VideoFileDescriptor } from './fs-utils';
+import { getChannel } from './channels';
+import { getConfig, PRIVACY_STATUSES, PrivacyStatus, SUPPORTED_TRANSLATION_LANGS } from './config';
+import { findMetadataFile, readFolderDefaults, readMetadataFile, VideoFileDescriptor } from './fs-utils';
+import { generateText, LlmWriteOptions } from './llm';
 import { logger } from './logger';
 
 export interface VideoMetadata {
@@ -14,24 +15,28 @@ export interface VideoMetadata {
   hashtags: string[];
   language: string;
   scheduleHint?: string;
+  publishAt?: string;
+  notBefore?: string;
+  notAfter?: string;
+  /** Why the scheduler could not honour the scheduling fields above, when it could not. */
+  scheduleNote?: string;
   thumbnailText?: string;
+  thumbnailTemplate?: string;
+  thumbnailTime?: string | number;
+  translatedTitles?: Record<string, string>;
   translatedDescriptions?: Record<string, string>;
+  playlists?: string[];
+  categoryId?: string;
+  privacyStatus?: PrivacyStatus;
   generatedByAi?: boolean;
   sourceMetadataPath?: string | null;
 }
 
-const openAiClient = (() => {
-  const { openAiApiKey } = getConfig();
-  if (!openAiApiKey) return null;
-  return new OpenAI({ apiKey: openAiApiKey });
-})();
-
 async function generateMetadataWithAI(
   video: VideoFileDescriptor,
   baseMetadata: Record<string, unknown> | null,
+  options: LlmWriteOptions,
 ): Promise<Partial<VideoMetadata>> {
-  if (!openAiClient) return {};
-
   const promptPieces: string[] = [];
   promptPieces.push(
     `You are an experienced YouTube Shorts strategist. Generate optimized metadata for a YouTube Short given the available information.`,
@@ -44,45 +49,126 @@ async function generateMetadataWithAI(
     promptPieces.push(`Existing metadata (JSON): ${JSON.stringify(baseMetadata)}`);
   }
   promptPieces.push(
-    `Return a valid JSON object with the keys: title, description, tags (array), hashtags (array of hashtag strings like #example), language (ISO language code), scheduleHint (string), thumbnailText (string).`,
+    `Return a valid JSON object with the keys: title, description, tags (array), hashtags (array of hashtag strings like #example), language (ISO language code), scheduleHint (best time to post, such as "weekday evening" or "saturday morning"), thumbnailText (string).`,
   );
 
-  const response = await openAiClient.responses.create({
-    model: 'gpt-4.1-mini',
-    input: promptPieces.join('\n'),
-  });
-
-  const text = response.output_text?.[0];
+  const response = await generateText('metadata', promptPieces.join('\n'), { ...options, json: true });
+  const text = response?.text;
   if (text) {
     try {
       return JSON.parse(text);
     } catch (error) {
-      logger.error('Failed to parse metadata JSON from OpenAI', { error });
+      logger.error('Failed to parse metadata JSON from the LLM', { error });
     }
   }
 
   return {};
 }
 
-async function translateDescriptionWithAI(
-  description: string,
+/** Translates into each language in turn; a language that fails is logged and left out. */
+async function translateEach(
+  what: 'title' | 'description',
   languages: string[],
+  prompt: (lang: string) => string,
+  clean: (text: string) => string,
+  options: LlmWriteOptions,
 ): Promise<Record<string, string>> {
-  if (!openAiClient) return {};
   const translations: Record<string, string> = {};
   for (const lang of languages) {
-    const response = await openAiClient.responses.create({
-      model: 'gpt-4.1-mini',
-      input: `Translate the following YouTube Shorts description into ${lang}. Retain hashtags and calls to action.\n\n${description}`,
-    });
-    const text = response.output_text?.[0];
-    if (text) {
-      translations[lang] = text.trim();
+    try {
+      const response = await generateText('translation', prompt(lang), options);
+      if (!response) continue;
+      const text = response.text;
+      if (text) {
+        translations[lang] = clean(text);
+      }
+    } catch (error) {
+      logger.warn(`Failed to translate ${what}`, { lang, error });
     }
   }
   return translations;
 }
 
+async function translateDescriptionWithAI(
+  description: string,
+  languages: string[],
+  options: LlmWriteOptions,
+): Promise<Record<string, string>> {
+  return translateEach(
+    'description',
+    languages,
+    (lang) =>
+      `Translate the following YouTube Shorts description into ${lang}. Retain hashtags and calls to action.\n\n${description}`,
+    (text) => text.trim(),
+    options,
+  );
+}
+
+async function translateTitleWithAI(
+  title: string,
+  languages: string[],
+  options: LlmWriteOptions,
+): Promise<Record<string, string>> {
+  return translateEach(
+    'title',
+    languages,
+    (lang) =>
+      `Translate the following YouTube Shorts title into ${lang}. Keep it under 100 characters and return only the translated title.\n\n${title}`,
+    (text) => text.trim().slice(0, 100),
+    options,
+  );
+}
+
+/**
+ * Translates the title and description into the languages `metadata` has no translation for.
+ * Translations it already carries, such as ones written in the sidecar, are kept as they are.
+ */
+export async function translateMetadata(
+  metadata: VideoMetadata,
+  languages: string[],
+  options: LlmWriteOptions = {},
+): Promise<Pick<VideoMetadata, 'translatedTitles' | 'translatedDescriptions'>> {
+  const targets = languages.filter((lang) => lang !== metadata.language);
+  if (targets.length === 0) return {};
+  const titles = metadata.translatedTitles ?? {};
+  const descriptions = metadata.translatedDescriptions ?? {};
+  const missingTitles = targets.filter((lang) => !titles[lang]);
+  const missingDescriptions = targets.filter((lang) => !descriptions[lang]);
+  return {
+    translatedTitles: { ...(await translateTitleWithAI(metadata.title, missingTitles, options)), ...titles },
+    translatedDescriptions: {
+      ...(await translateDescriptionWithAI(metadata.description, missingDescriptions, options)),
+      ...descriptions,
+    },
+  };
+}
+
+export function toVideoMetadata(metadata: Record<string, unknown> | null): VideoMetadata | null {
+  if (!metadata) return null;
+  return {
+    title: (metadata.title as string | undefined) ?? 'Untitled Short',
+    description: (metadata.description as string | undefined) ?? '',
+    tags: (metadata.tags as string[] | undefined) ?? [],
+    hashtags: (metadata.hashtags as string[] | undefined) ?? [],
+    language: (metadata.language as string | undefined) ?? 'en',
+    scheduleHint: metadata.scheduleHint as string | undefined,
+    publishAt: metadata.publishAt as string | undefined,
+    notBefore: metadata.notBefore as string | undefined,
+    notAfter: metadata.notAfter as string | undefined,
+    scheduleNote: metadata.scheduleNote as string | undefined,
+    thumbnailText: metadata.thumbnailText as string | undefined,
+    thumbnailTemplate: metadata.thumbnailTemplate as string | undefined,
+    thumbnailTime: metadata.thumbnailTime as string | number | undefined,
+    translatedTitles: metadata.translatedTitles as Record<string, string> | undefined,
+    translatedDescriptions: metadata.translatedDescriptions as Record<string, string> | undefined,
+    playlists: metadata.playlists as string[] | undefined,
+    categoryId: metadata.categoryId as string | undefined,
+    privacyStatus: metadata.privacyStatus as PrivacyStatus | undefined,
+    generatedByAi: metadata.generatedByAi as boolean | undefined,
+    sourceMetadataPath: (metadata.sourceMetadataPath as string | null | undefined) ?? null,
+  };
+}
+
 function normalizeTags(input: unknown): string[] {
   if (!input) return [];
   if (Array.isArray(input)) {
@@ -105,17 +191,42 @@ function normalizeHashtags(input: unknown): string[] {
   });
 }
 
-export async function buildVideoMetadata(video: VideoFileDescriptor): Promise<VideoMetadata> {
+function resolvePlaylists(input: unknown, defaultPlaylistId: string | undefined): string[] {
+  const playlists = normalizeTags(input);
+  if (defaultPlaylistId) {
+    playlists.unshift(defaultPlaylistId);
+  }
+  return Array.from(new Set(playlists));
+}
+
+function resolvePrivacyStatus(input: unknown, video: VideoFileDescriptor): PrivacyStatus | undefined {
+  if (input == null) return undefined;
+  const value = String(input).toLowerCase();
+  if (PRIVACY_STATUSES.includes(value as PrivacyStatus)) return value as PrivacyStatus;
+  logger.warn('Ignoring unknown privacy status in metadata', { video: video.filename, privacy: input });
+  return undefined;
+}
+
+export async function buildVideoMetadata(
+  video: VideoFileDescriptor,
+  options: LlmWriteOptions = {},
+): Promise<VideoMetadata> {
   const config = getConfig();
 
   const metadataPath = await findMetadataFile(video.filepath);
-  let fileMetadata: Record<string, unknown> | null = null;
+  let sidecarMetadata: Record<string, unknown> | null = null;
   if (metadataPath) {
-    fileMetadata = await readMetadataFile(metadataPath);
+    sidecarMetadata = await readMetadataFile(metadataPath);
     logger.info('Loaded metadata file', { video: video.filename, metadataPath });
   }
 
-  const aiMetadata = await generateMetadataWithAI(video, fileMetadata);
+  // Folder `_defaults.json` values sit underneath the sidecar: any key the sidecar sets wins.
+  const channel = getChannel(video.channelId);
+  const folderDefaults = await readFolderDefaults(video.filepath, channel.contentDir);
+  const fileMetadata =
+    folderDefaults || sidecarMetadata ? { ...folderDefaults, ...sidecarMetadata } : null;
+
+  const aiMetadata = await generateMetadataWithAI(video, fileMetadata, options);
 
   const title =
     (fileMetadata?.title as string | undefined) ??
@@ -144,20 +255,30 @@ export async function buildVideoMetadata(video: VideoFileDescriptor): Promise<Vi
     scheduleHint:
       (fileMetadata?.scheduleHint as string | undefined) ??
       (aiMetadata.scheduleHint as string | undefined),
+    publishAt: fileMetadata?.publishAt as string | undefined,
+    notBefore: fileMetadata?.notBefore as string | undefined,
+    notAfter: fileMetadata?.notAfter as string | undefined,
     thumbnailText:
       (fileMetadata?.thumbnailText as string | undefined) ??
       (aiMetadata.thumbnailText as string | undefined),
-    generatedByAi: !fileMetadata,
+    thumbnailTemplate: fileMetadata?.thumbnailTemplate as string | undefined,
+    thumbnailTime: fileMetadata?.thumbnailTime as string | number | undefined,
+    translatedTitles: fileMetadata?.translatedTitles as Record<string, string> | undefined,
+    translatedDescriptions: fileMetadata?.translatedDescriptions as Record<string, string> | undefined,
+    playlists: resolvePlaylists(
+      fileMetadata?.playlists ?? fileMetadata?.playlist,
+      channel.playlistId,
+    ),
+    categoryId: (fileMetadata?.categoryId ?? fileMetadata?.category) as string | undefined,
+    privacyStatus: resolvePrivacyStatus(fileMetadata?.privacyStatus ?? fileMetadata?.privacy, video),
+    generatedByAi: !sidecarMetadata,
     sourceMetadataPath: metadataPath,
   };
 
   if (config.enableTranslations) {
     const languages = SUPPORTED_TRANSLATION_LANGS();
     if (languages.length > 0) {
-      metadata.translatedDescriptions = await translateDescriptionWithAI(
-        metadata.description,
-        languages,
-      );
+      Object.assign(metadata, await translateMetadata(metadata, languages, options));
     }
   }
 
@@ -169,11 +290,13 @@ export async function persistMetadataSnapshot(
   metadata: VideoMetadata,
 ) {
   const { metadataDir } = getConfig();
-  await fs.mkdir(metadataDir, { recursive: true });
+  // Paths are only unique within a channel.
   const outputPath = path.join(
     metadataDir,
-    `${path.basename(video.filename, path.extname(video.filename))}.metadata.json`,
+    video.channelId,
+    `${video.filename.slice(0, video.filename.length - path.extname(video.filename).length)}.metadata.json`,
   );
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
 
   await fs.writeFile(outputPath, JSON.stringify(metadata, null, 2), 'utf-8');
 }
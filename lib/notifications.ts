@@ -1,6 +1,7 @@
 import 'server-only';
 
 import nodemailer from 'nodemailer';
+import { ChannelConfig } from './channels';
 import { getConfig } from './config';
 import { logger } from './logger';
 
@@ -13,9 +14,9 @@ export interface UploadSummary {
   analytics?: Record<string, unknown> | null;
 }
 
-async function sendEmail(summary: UploadSummary) {
+async function sendEmail(summary: UploadSummary, channel: ChannelConfig) {
   const config = getConfig();
-  if (!config.notificationEmail) {
+  if (!channel.notificationEmail) {
     logger.warn('Notification email is not configured');
     return;
   }
@@ -38,7 +39,7 @@ async function sendEmail(summary: UploadSummary) {
   const url = `https://youtube.com/shorts/${summary.youtubeVideoId}`;
   await transporter.sendMail({
     from: config.notificationSmtpUser,
-    to: config.notificationEmail,
+    to: channel.notificationEmail,
     subject: `YouTube Short uploaded: ${summary.title}`,
     text: `Uploaded ${summary.title}
 Video ID: ${summary.youtubeVideoId}
@@ -51,8 +52,8 @@ Analytics: ${JSON.stringify(summary.analytics ?? {}, null, 2)}
   });
 }
 
-async function sendDiscord(summary: UploadSummary) {
-  const { notificationDiscordWebhook } = getConfig();
+async function sendDiscord(summary: UploadSummary, channel: ChannelConfig) {
+  const { notificationDiscordWebhook } = channel;
   if (!notificationDiscordWebhook) return;
 
   await fetch(notificationDiscordWebhook, {
@@ -73,8 +74,9 @@ async function sendDiscord(summary: UploadSummary) {
   });
 }
 
-async function sendTelegram(summary: UploadSummary) {
-  const { notificationTelegramBotToken, notificationTelegramChatId } = getConfig();
+async function sendTelegram(summary: UploadSummary, channel: ChannelConfig) {
+  const { notificationTelegramBotToken } = getConfig();
+  const { notificationTelegramChatId } = channel;
   if (!notificationTelegramBotToken || !notificationTelegramChatId) return;
 
   const url = `https://api.telegram.org/bot${notificationTelegramBotToken}/sendMessage`;
@@ -90,17 +92,16 @@ async function sendTelegram(summary: UploadSummary) {
   });
 }
 
-export async function sendUploadNotification(summary: UploadSummary) {
-  const config = getConfig();
-  const channel = config.notificationChannel;
+export async function sendUploadNotification(summary: UploadSummary, channel: ChannelConfig) {
+  const target = channel.notificationChannel;
 
   try {
-    if (channel === 'email') {
-      await sendEmail(summary);
-    } else if (channel === 'discord') {
-      await sendDiscord(summary);
-    } else if (channel === 'telegram') {
-      await sendTelegram(summary);
+    if (target === 'email') {
+      await sendEmail(summary, channel);
+    } else if (target === 'discord') {
+      await sendDiscord(summary, channel);
+    } else if (target === 'telegram') {
+      await sendTelegram(summary, channel);
     }
   } catch (error) {
     logger.warn('Failed to send notification', { error });
@@ -0,0 +1,99 @@
+import 'server-only';
+
+import { PlaylistAssignment, storePlaylistAssignments, VideoRecord } from './db';
+import { estimateUploadCost, getQuotaUsage, quotaCost } from './quota';
+import { planRetry } from './retry';
+import { addVideoToPlaylist } from './youtube';
+import { logger } from './logger';
+
+export async function syncPlaylistAssignments(
+  video: Pick<VideoRecord, 'filename' | 'channelId' | 'playlistAssignments'>,
+  youtubeVideoId: string,
+  playlistIds: string[],
+): Promise<PlaylistAssignment[]> {
+  const { filename, channelId, playlistAssignments: existing } = video;
+  const assignments = new Map(existing.map((assignment) => [assignment.playlistId, assignment]));
+  const pending = playlistIds.filter((playlistId) => {
+    const status = assignments.get(playlistId)?.status;
+    return status !== 'added' && status !== 'dead';
+  });
+  if (pending.length === 0) return existing;
+
+  for (const playlistId of pending) {
+    const attemptedAt = new Date().toISOString();
+    const previous = assignments.get(playlistId);
+    const attempts = (previous ? previous.attempts ?? 1 : 0) + 1;
+    try {
+      const playlistItemId = await addVideoToPlaylist(channelId, youtubeVideoId, playlistId);
+      assignments.set(playlistId, {
+        playlistId,
+        status: 'added',
+        playlistItemId,
+        error: null,
+        attemptedAt,
+        attempts,
+        nextAttemptAt: null,
+      });
+      logger.info('Added video to playlist', { filename, youtubeVideoId, playlistId });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+      // Playlist inserts back off and give up like uploads: a missing or forbidden playlist is permanent.
+      const decision = planRetry(error, attempts - 1);
+      assignments.set(playlistId, {
+        playlistId,
+        status: decision.status,
+        playlistItemId: null,
+        error: errorMessage,
+        attemptedAt,
+        attempts,
+        nextAttemptAt: decision.nextAttemptAt?.toISOString() ?? null,
+      });
+      logger.warn('Failed to add video to playlist', {
+        filename,
+        youtubeVideoId,
+        playlistId,
+        error: errorMessage,
+        retry: decision.status === 'failed' ? decision.nextAttemptAt : null,
+      });
+    }
+  }
+
+  const result = Array.from(assignments.values());
+  try {
+    await storePlaylistAssignments(video, result);
+  } catch (error) {
+    logger.warn('Failed to store playlist assignments', { filename, error });
+  }
+  return result;
+}
+
+/**
+ * Retries failed playlist inserts whose backoff has passed. A video's retries wait for another
+ * day when they would leave the channel's quota short of one upload.
+ */
+export async function retryFailedPlaylistAssignments(videos: VideoRecord[], now = new Date()) {
+  for (const video of videos) {
+    if (video.status !== 'uploaded' || !video.youtubeVideoId) continue;
+    const due = video.playlistAssignments
+      .filter(
+        (assignment) =>
+          assignment.status === 'failed' &&
+          (!assignment.nextAttemptAt || new Date(assignment.nextAttemptAt) <= now),
+      )
+      .map((assignment) => assignment.playlistId);
+    if (due.length === 0) continue;
+
+    const { remaining } = await getQuotaUsage(video.channelId, now);
+    const needed = quotaCost('playlistItems.insert') * due.length + estimateUploadCost(0);
+    if (remaining < needed) {
+      logger.warn('Deferring playlist retries, YouTube quota is reserved for uploads', {
+        filename: video.filename,
+        remaining,
+        needed,
+      });
+      continue;
+    }
+    await syncPlaylistAssignments(video, video.youtubeVideoId, due);
+  }
+}
@@ -0,0 +1,198 @@
+import 'server-only';
+
+import { DateTime } from 'luxon';
+import { ChannelConfig } from './channels';
+import { VideoRecord } from './db';
+import { formatUploadWindows, WeeklyUploadWindows } from './schedule-rules';
+
+/** Fewer analysed videos than this and the channel gets no recommendations. */
+export const MIN_POSTING_TIME_SAMPLES = 5;
+/** Videos younger than this when their analytics were fetched say little about their velocity. */
+const MIN_AGE_HOURS = 6;
+/** Weight of a neutral prior, in videos, that pulls thinly sampled hours and weekdays toward average. */
+const PRIOR_WEIGHT = 2;
+const VIEW_WEIGHT = 0.7;
+const LIKE_WEIGHT = 0.3;
+
+export type PostingTimeConfidence = 'low' | 'medium' | 'high';
+
+interface PostingTimeSample {
+  weekday: number;
+  hour: number;
+  viewsPerHour: number;
+  likesPerHour: number;
+}
+
+export interface PostingTimeStat {
+  videos: number;
+  /** Median views per hour of the videos in this bucket. */
+  viewsPerHour: number;
+  likesPerHour: number;
+  /** Performance against the channel's median video, shrunk toward 1 when there are few videos. */
+  lift: number;
+}
+
+export interface PostingTimeRecommendation {
+  /** Luxon weekday, 1 = Monday. */
+  weekday: number;
+  hour: number;
+  /** Expected performance against the channel's median video; above 1 is better. */
+  score: number;
+  confidence: PostingTimeConfidence;
+  /** Analysed videos behind the weaker of the weekday and hour estimates. */
+  videos: number;
+}
+
+export interface PostingTimeReport {
+  channelId: string;
+  timezone: string;
+  /** Uploaded videos with analytics old enough to use. */
+  sampleSize: number;
+  byWeekday: Record<number, PostingTimeStat>;
+  byHour: Record<number, PostingTimeStat>;
+  /** Best weekday and hour combinations first; empty below `MIN_POSTING_TIME_SAMPLES`. */
+  recommendations: PostingTimeRecommendation[];
+  /** The best times as an `UPLOAD_WINDOWS` value, or null without recommendations. */
+  suggestedUploadWindows: string | null;
+}
+
+function readTime(value: unknown): DateTime | null {
+  if (typeof value !== 'string') return null;
+  const parsed = DateTime.fromISO(value);
+  return parsed.isValid ? parsed : null;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Views and likes per hour from publishing until the analytics were fetched. Videos published
+ * through a schedule use `publishedAt` from YouTube, falling back to when they were scheduled
+ * or uploaded.
+ */
+function toSample(video: VideoRecord, timeZone: string): PostingTimeSample | null {
+  const analytics = video.analytics;
+  if (!analytics) return null;
+  const fallback = video.scheduledAt ?? video.uploadedAt;
+  const publishedAt =
+    readTime(analytics.publishedAt) ?? (fallback ? DateTime.fromJSDate(fallback) : null);
+  const observedAt = readTime(analytics.fetchedAt) ?? DateTime.fromJSDate(video.updatedAt);
+  if (!publishedAt) return null;
+
+  const hours = observedAt.diff(publishedAt, 'hours').hours;
+  const views = Number(analytics.viewCount);
+  const likes = Number(analytics.likeCount);
+  if (hours < MIN_AGE_HOURS || !Number.isFinite(views)) return null;
+
+  const local = publishedAt.setZone(timeZone);
+  return {
+    weekday: local.weekday,
+    hour: local.hour,
+    viewsPerHour: views / hours,
+    likesPerHour: Number.isFinite(likes) ? likes / hours : 0,
+  };
+}
+
+function confidenceFor(videos: number): PostingTimeConfidence {
+  if (videos >= 6) return 'high';
+  if (videos >= 3) return 'medium';
+  return 'low';
+}
+
+/**
+ * Correlates when a channel's uploaded videos went public with how fast they gathered views and
+ * likes. Each video is scored against the channel's median video (views weigh more than likes),
+ * then averaged per weekday and per hour of day in the channel's timezone. A weekday and hour
+ * pair is scored as the product of the two, since few channels have enough videos to judge
+ * every pair on its own.
+ */
+export function analyzePostingTimes(videos: VideoRecord[], channel: ChannelConfig): PostingTimeReport {
+  const samples = videos
+    .filter((video) => video.channelId === channel.id && video.status === 'uploaded')
+    .map((video) => toSample(video, channel.timezone))
+    .filter((sample): sample is PostingTimeSample => sample !== null);
+
+  const medianViews = median(samples.map((sample) => sample.viewsPerHour));
+  const medianLikes = median(samples.map((sample) => sample.likesPerHour));
+  const scoreOf = (sample: PostingTimeSample) => {
+    const viewLift = medianViews > 0 ? sample.viewsPerHour / medianViews : 1;
+    if (medianLikes <= 0) return viewLift;
+    return VIEW_WEIGHT * viewLift + LIKE_WEIGHT * (sample.likesPerHour / medianLikes);
+  };
+
+  const statsBy = (key: 'weekday' | 'hour') => {
+    const groups = new Map<number, PostingTimeSample[]>();
+    for (const sample of samples) {
+      groups.set(sample[key], [...(groups.get(sample[key]) ?? []), sample]);
+    }
+    const stats: Record<number, PostingTimeStat> = {};
+    for (const [value, group] of groups) {
+      const total = group.reduce((sum, sample) => sum + scoreOf(sample), 0);
+      stats[value] = {
+        videos: group.length,
+        viewsPerHour: median(group.map((sample) => sample.viewsPerHour)),
+        likesPerHour: median(group.map((sample) => sample.likesPerHour)),
+        lift: (total + PRIOR_WEIGHT) / (group.length + PRIOR_WEIGHT),
+      };
+    }
+    return stats;
+  };
+  const byWeekday = statsBy('weekday');
+  const byHour = statsBy('hour');
+
+  const recommendations: PostingTimeRecommendation[] = [];
+  if (samples.length >= MIN_POSTING_TIME_SAMPLES && medianViews > 0) {
+    for (let weekday = 1; weekday <= 7; weekday += 1) {
+      for (const [hour, hourStat] of Object.entries(byHour)) {
+        const weekdayStat = byWeekday[weekday];
+        // Weekdays nobody has posted on yet count as average rather than being left out.
+        const videoCount = Math.min(hourStat.videos, weekdayStat?.videos ?? 0);
+        recommendations.push({
+          weekday,
+          hour: Number(hour),
+          score: hourStat.lift * (weekdayStat?.lift ?? 1),
+          confidence: confidenceFor(videoCount),
+          videos: videoCount,
+        });
+      }
+    }
+    recommendations.sort((a, b) => b.score - a.score || b.videos - a.videos);
+  }
+
+  return {
+    channelId: channel.id,
+    timezone: channel.timezone,
+    sampleSize: samples.length,
+    byWeekday,
+    byHour,
+    recommendations,
+    suggestedUploadWindows:
+      recommendations.length > 0 ? formatUploadWindows(performanceUploadWindows(recommendations, channel)) : null,
+  };
+}
+
+/**
+ * Replaces each weekday's upload windows with its best performing hours, keeping the number of
+ * windows the channel configured for that day. Days without windows stay empty, and days short
+ * of analysed hours keep their configured windows for the rest.
+ */
+export function performanceUploadWindows(
+  recommendations: PostingTimeRecommendation[],
+  channel: ChannelConfig,
+): WeeklyUploadWindows {
+  const windows: WeeklyUploadWindows = {};
+  for (let weekday = 1; weekday <= 7; weekday += 1) {
+    const configured = channel.uploadWindows[weekday] ?? [];
+    const best = recommendations
+      .filter((recommendation) => recommendation.weekday === weekday)
+      .slice(0, configured.length)
+      .map((recommendation) => `${String(recommendation.hour).padStart(2, '0')}:00`);
+    const rest = configured.filter((time) => !best.some((hour) => hour.slice(0, 2) === time.slice(0, 2)));
+    windows[weekday] = [...best, ...rest.slice(0, configured.length - best.length)].sort();
+  }
+  return windows;
+}
@@ -0,0 +1,138 @@
+import 'server-only';
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs/promises';
+import path from 'path';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { getConfig } from './config';
+import { tempBaseName, VideoFileDescriptor } from './fs-utils';
+import { inspectMedia, MediaInfo } from './media';
+import { applyWatermark, overlayPosition, resolveWatermarkPath } from './watermark';
+import { logger } from './logger';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+const ASPECT_TOLERANCE = 0.01;
+
+export function needsProcessing(media: MediaInfo): boolean {
+  const config = getConfig();
+  const targetAspect = config.outputWidth / config.outputHeight;
+  if (media.aspectRatio == null || Math.abs(media.aspectRatio - targetAspect) > ASPECT_TOLERANCE) {
+    return true;
+  }
+  if (media.videoCodec !== 'h264') return true;
+  if (media.hasAudio && media.audioCodec !== 'aac') return true;
+  if (
+    config.maxOutputDurationSeconds &&
+    media.durationSeconds != null &&
+    media.durationSeconds > config.maxOutputDurationSeconds
+  ) {
+    return true;
+  }
+  return false;
+}
+
+function buildReframeFilters(input: string, output: string): string[] {
+  const { reframeMode, outputWidth: w, outputHeight: h } = getConfig();
+
+  if (reframeMode === 'crop') {
+    return [
+      `[${input}]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},setsar=1[${output}]`,
+    ];
+  }
+
+  if (reframeMode === 'letterbox') {
+    return [
+      `[${input}]scale=${w}:${h}:force_original_aspect_ratio=decrease,pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1[${output}]`,
+    ];
+  }
+
+  return [
+    `[${input}]split=2[bgsrc][fgsrc]`,
+    `[bgsrc]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},boxblur=20:5[bg]`,
+    `[fgsrc]scale=${w}:${h}:force_original_aspect_ratio=decrease[fg]`,
+    `[bg][fg]overlay=(W-w)/2:(H-h)/2,setsar=1[${output}]`,
+  ];
+}
+
+async function transcodeForShorts(
+  video: VideoFileDescriptor,
+  watermarkPath: string | null,
+): Promise<string> {
+  const config = getConfig();
+  await fs.mkdir(config.tempDir, { recursive: true });
+
+  const outputPath = path.join(config.tempDir, `${tempBaseName(video)}-processed.mp4`);
+
+  const filters = buildReframeFilters('0:v', watermarkPath ? 'framed' : 'out');
+  if (watermarkPath) {
+    filters.push(`[framed][1:v]overlay=${overlayPosition(config.watermarkPosition)}[out]`);
+  }
+
+  const outputOptions = [
+    '-map',
+    '0:a?',
+    '-c:v',
+    'libx264',
+    '-preset',
+    'medium',
+    '-profile:v',
+    'high',
+    '-pix_fmt',
+    'yuv420p',
+    '-b:v',
+    `${config.targetVideoBitrateKbps}k`,
+    '-maxrate',
+    `${config.targetVideoBitrateKbps}k`,
+    '-bufsize',
+    `${config.targetVideoBitrateKbps * 2}k`,
+    '-c:a',
+    'aac',
+    '-b:a',
+    `${config.targetAudioBitrateKbps}k`,
+    '-movflags',
+    '+faststart',
+  ];
+  if (config.maxOutputDurationSeconds) {
+    outputOptions.push('-t', String(config.maxOutputDurationSeconds));
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const command = ffmpeg(video.filepath);
+    if (watermarkPath) {
+      command.addInput(watermarkPath);
+    }
+    command
+      .complexFilter(filters, 'out')
+      .outputOptions(outputOptions)
+      .on('end', () => resolve())
+      .on('error', (error) => reject(error))
+      .save(outputPath);
+  });
+
+  logger.info('Video processed for Shorts', {
+    video: video.filename,
+    outputPath,
+    reframeMode: config.reframeMode,
+    watermarked: Boolean(watermarkPath),
+  });
+
+  return outputPath;
+}
+
+export async function prepareVideoForUpload(
+  video: VideoFileDescriptor,
+  media: MediaInfo | null,
+): Promise<string> {
+  const config = getConfig();
+  if (!config.enableVideoProcessing) {
+    return applyWatermark(video);
+  }
+
+  const inspected = media ?? (await inspectMedia(video.filepath));
+  if (!needsProcessing(inspected)) {
+    return applyWatermark(video);
+  }
+
+  return transcodeForShorts(video, await resolveWatermarkPath());
+}
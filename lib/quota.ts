@@ -0,0 +1,113 @@
+import 'server-only';
+
+import { getChannel, getChannels } from './channels';
+import { getConfig } from './config';
+import { incrementQuotaUsage, listQuotaUsage } from './db';
+import { logger } from './logger';
+
+export type YoutubeOperation =
+  | 'videos.insert'
+  | 'videos.list'
+  | 'videos.update'
+  | 'thumbnails.set'
+  | 'playlistItems.insert'
+  | 'playlistItems.list'
+  | 'channels.list';
+
+const QUOTA_TIMEZONE = 'America/Los_Angeles';
+
+// Unit costs from the YouTube Data API quota calculator. The upload cost is configurable
+// because Google has changed it before.
+export function quotaCost(operation: YoutubeOperation): number {
+  switch (operation) {
+    case 'videos.insert':
+      return getConfig().youtubeUploadQuotaCost;
+    case 'videos.update':
+    case 'thumbnails.set':
+    case 'playlistItems.insert':
+      return 50;
+    default:
+      return 1;
+  }
+}
+
+export function quotaDay(now = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: QUOTA_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
+}
+
+/**
+ * Quota is charged per Google Cloud project, so channels that share an OAuth client id
+ * draw from the same daily budget.
+ */
+export function quotaPoolChannelIds(channelId: string): string[] {
+  const clientId = getChannel(channelId).youtubeClientId;
+  const pool = getChannels()
+    .filter((channel) => channel.youtubeClientId === clientId)
+    .map((channel) => channel.id);
+  return pool.includes(channelId) ? pool : [...pool, channelId];
+}
+
+export async function recordQuotaUsage(
+  channelId: string,
+  operation: YoutubeOperation,
+  calls = 1,
+  now = new Date(),
+) {
+  try {
+    await incrementQuotaUsage(quotaDay(now), channelId, operation, calls, quotaCost(operation) * calls);
+  } catch (error) {
+    logger.warn('Failed to record YouTube quota usage', { channel: channelId, operation, error });
+  }
+}
+
+/** Runs one API request and charges it to the ledger whether or not it succeeds. */
+export async function meterYoutubeCall<T>(
+  channelId: string,
+  operation: YoutubeOperation,
+  request: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await request();
+  } finally {
+    await recordQuotaUsage(channelId, operation);
+  }
+}
+
+export interface QuotaUsage {
+  day: string;
+  channelIds: string[];
+  used: number;
+  limit: number;
+  remaining: number;
+  byOperation: Record<string, { calls: number; units: number }>;
+}
+
+export async function getQuotaUsage(channelId: string, now = new Date()): Promise<QuotaUsage> {
+  const day = quotaDay(now);
+  const channelIds = quotaPoolChannelIds(channelId);
+  const entries = (await listQuotaUsage(day)).filter((entry) => channelIds.includes(entry.channelId));
+  const byOperation: QuotaUsage['byOperation'] = {};
+  let used = 0;
+  for (const entry of entries) {
+    const totals = (byOperation[entry.operation] ??= { calls: 0, units: 0 });
+    totals.calls += entry.calls;
+    totals.units += entry.units;
+    used += entry.units;
+  }
+  const limit = getConfig().youtubeDailyQuota;
+  return { day, channelIds, used, limit, remaining: Math.max(0, limit - used), byOperation };
+}
+
+/** A resumed upload was already charged for its insert when the session was opened. */
+export function estimateUploadCost(playlistCount: number, resuming = false): number {
+  return (
+    (resuming ? 0 : quotaCost('videos.insert')) +
+    quotaCost('thumbnails.set') +
+    quotaCost('playlistItems.insert') * playlistCount
+  );
+}
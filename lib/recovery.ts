@@ -0,0 +1,75 @@
+import 'server-only';
+
+import { getConfig } from './config';
+import { listStuckUploads, markVideoAsUploaded, releaseVideoClaim, VideoRecord } from './db';
+import { checkUploadSession, findUploadByFingerprint, uploadFingerprint } from './youtube';
+import { logger } from './logger';
+
+// Uploads-playlist timestamps come from YouTube's clock; look back a little past the claim.
+const ORPHAN_SEARCH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+export interface RecoveryOutcome {
+  filename: string;
+  action: 'uploaded' | 'requeued';
+  youtubeVideoId: string | null;
+}
+
+async function findOrphanedUpload(record: VideoRecord): Promise<string | null> {
+  if (record.uploadSession) {
+    const check = await checkUploadSession(record.channelId, record.uploadSession);
+    if (check.state === 'complete') return check.videoId;
+    // An unfinished session means YouTube never created the video; the retry resumes it.
+    if (check.state === 'incomplete') return null;
+  }
+
+  const since = new Date(
+    Date.parse(record.uploadSession?.startedAt ?? '') || record.updatedAt.getTime(),
+  );
+  return findUploadByFingerprint(
+    record.channelId,
+    uploadFingerprint(record),
+    new Date(since.getTime() - ORPHAN_SEARCH_MARGIN_MS),
+  );
+}
+
+/**
+ * Resolves videos stuck in `processing` after a run died between claiming and recording the
+ * outcome. A video that made it to YouTube is marked uploaded; anything else is requeued.
+ * When YouTube can't be checked the record is left alone so it is never uploaded twice.
+ */
+export async function recoverStuckUploads(now = new Date()): Promise<RecoveryOutcome[]> {
+  const { processingTimeoutMinutes } = getConfig();
+  const stuck = await listStuckUploads(new Date(now.getTime() - processingTimeoutMinutes * 60 * 1000));
+  const outcomes: RecoveryOutcome[] = [];
+
+  for (const record of stuck) {
+    try {
+      const youtubeVideoId = await findOrphanedUpload(record);
+      if (youtubeVideoId) {
+        await markVideoAsUploaded(record, youtubeVideoId, {
+          ...(record.metadata ?? {}),
+          recoveredAt: now.toISOString(),
+        });
+        logger.warn('Recovered orphaned upload from YouTube', {
+          filename: record.filename,
+          youtubeVideoId,
+        });
+      } else {
+        await releaseVideoClaim(record, 'Recovered after being stuck in processing');
+        logger.warn('Requeued upload stuck in processing', { filename: record.filename });
+      }
+      outcomes.push({
+        filename: record.filename,
+        action: youtubeVideoId ? 'uploaded' : 'requeued',
+        youtubeVideoId,
+      });
+    } catch (error) {
+      logger.warn('Could not check YouTube for an orphaned upload, leaving it for the next run', {
+        filename: record.filename,
+        error,
+      });
+    }
+  }
+
+  return outcomes;
+}
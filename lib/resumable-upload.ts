@@ -0,0 +1,183 @@
+import 'server-only';
+
+import fs from 'fs/promises';
+import { Auth, youtube_v3 } from 'googleapis';
+import { UploadSession } from './db';
+
+const UPLOAD_ENDPOINT = 'https://www.googleapis.com/upload/youtube/v3/videos';
+// YouTube requires every chunk except the last to be a multiple of 256 KiB.
+const CHUNK_ALIGNMENT = 256 * 1024;
+
+export class ResumableUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly errors: { reason?: string; message?: string }[] = [],
+  ) {
+    super(message);
+    this.name = 'ResumableUploadError';
+  }
+}
+
+/** The session URI is no longer valid (expired or cancelled); the upload must start over. */
+export class UploadSessionExpiredError extends Error {
+  constructor(status: number) {
+    super(`Upload session is no longer valid (HTTP ${status})`);
+    this.name = 'UploadSessionExpiredError';
+  }
+}
+
+/** The run was asked to stop between chunks; the session is saved and can be resumed. */
+export class UploadInterruptedError extends Error {
+  constructor(readonly offset: number) {
+    super(`Upload interrupted at byte ${offset}`);
+    this.name = 'UploadInterruptedError';
+  }
+}
+
+export type UploadSessionStatus =
+  | { done: true; video: youtube_v3.Schema$Video }
+  | { done: false; offset: number };
+
+export function toChunkSizeBytes(megabytes: number): number {
+  const bytes = Math.floor((megabytes * 1024 * 1024) / CHUNK_ALIGNMENT) * CHUNK_ALIGNMENT;
+  return Math.max(CHUNK_ALIGNMENT, bytes);
+}
+
+async function authorizationHeader(auth: Auth.OAuth2Client): Promise<Record<string, string>> {
+  const { token } = await auth.getAccessToken();
+  if (!token) {
+    throw new Error('Failed to obtain a YouTube access token');
+  }
+  return { Authorization: `Bearer ${token}` };
+}
+
+async function toUploadError(response: Response): Promise<ResumableUploadError> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text) as { error?: { message?: string; errors?: { reason?: string }[] } };
+    return new ResumableUploadError(
+      body.error?.message ?? `Upload request failed with HTTP ${response.status}`,
+      response.status,
+      body.error?.errors ?? [],
+    );
+  } catch {
+    return new ResumableUploadError(
+      `Upload request failed with HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+      response.status,
+    );
+  }
+}
+
+async function readSessionResponse(response: Response): Promise<UploadSessionStatus> {
+  if (response.status === 200 || response.status === 201) {
+    return { done: true, video: (await response.json()) as youtube_v3.Schema$Video };
+  }
+  if (response.status === 308) {
+    // "Range: bytes=0-N" lists what the server holds; no header means nothing arrived yet.
+    const match = /bytes=\d+-(\d+)/.exec(response.headers.get('range') ?? '');
+    return { done: false, offset: match ? Number(match[1]) + 1 : 0 };
+  }
+  if (response.status === 404 || response.status === 410) {
+    throw new UploadSessionExpiredError(response.status);
+  }
+  throw await toUploadError(response);
+}
+
+export async function startUploadSession(
+  auth: Auth.OAuth2Client,
+  params: {
+    videoPath: string;
+    part: string[];
+    notifySubscribers: boolean;
+    requestBody: youtube_v3.Schema$Video;
+  },
+): Promise<UploadSession> {
+  const { size } = await fs.stat(params.videoPath);
+  const url = new URL(UPLOAD_ENDPOINT);
+  url.searchParams.set('uploadType', 'resumable');
+  url.searchParams.set('part', params.part.join(','));
+  url.searchParams.set('notifySubscribers', String(params.notifySubscribers));
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...(await authorizationHeader(auth)),
+      'Content-Type': 'application/json; charset=UTF-8',
+      'X-Upload-Content-Length': String(size),
+      'X-Upload-Content-Type': 'video/*',
+    },
+    body: JSON.stringify(params.requestBody),
+  });
+  if (!response.ok) {
+    throw await toUploadError(response);
+  }
+
+  const uri = response.headers.get('location');
+  if (!uri) {
+    throw new Error('YouTube did not return a resumable upload session URI');
+  }
+  const now = new Date().toISOString();
+  return { uri, videoPath: params.videoPath, totalBytes: size, offset: 0, startedAt: now, updatedAt: now };
+}
+
+export async function queryUploadSession(
+  auth: Auth.OAuth2Client,
+  session: UploadSession,
+): Promise<UploadSessionStatus> {
+  const response = await fetch(session.uri, {
+    method: 'PUT',
+    headers: {
+      ...(await authorizationHeader(auth)),
+      'Content-Length': '0',
+      'Content-Range': `bytes */${session.totalBytes}`,
+    },
+    redirect: 'manual',
+  });
+  return readSessionResponse(response);
+}
+
+/**
+ * Sends the file from `session.offset` in chunks, reporting the new offset after each one
+ * so a later run can resume from there if this process dies.
+ */
+export async function uploadRemainingChunks(
+  auth: Auth.OAuth2Client,
+  session: UploadSession,
+  options: {
+    chunkSizeBytes: number;
+    signal?: AbortSignal;
+    onProgress: (session: UploadSession) => Promise<void>;
+  },
+): Promise<youtube_v3.Schema$Video> {
+  const handle = await fs.open(session.videoPath, 'r');
+  let offset = session.offset;
+  try {
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new UploadInterruptedError(offset);
+      }
+      const length = Math.min(options.chunkSizeBytes, session.totalBytes - offset);
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, offset);
+
+      const response = await fetch(session.uri, {
+        method: 'PUT',
+        headers: {
+          ...(await authorizationHeader(auth)),
+          'Content-Length': String(length),
+          'Content-Range': `bytes ${offset}-${offset + length - 1}/${session.totalBytes}`,
+        },
+        body: chunk,
+        redirect: 'manual',
+      });
+      const status = await readSessionResponse(response);
+      if (status.done) return status.video;
+
+      offset = status.offset;
+      await options.onProgress({ ...session, offset, updatedAt: new Date().toISOString() });
+    }
+  } finally {
+    await handle.close();
+  }
+}
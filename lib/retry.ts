@@ -0,0 +1,116 @@
+import 'server-only';
+
+import { getConfig } from './config';
+
+export type ErrorKind = 'transient' | 'permanent';
+
+export interface RetryDecision {
+  kind: ErrorKind;
+  status: 'failed' | 'dead';
+  nextAttemptAt: Date | null;
+}
+
+export class PermanentUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentUploadError';
+  }
+}
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'TimeoutError',
+  'AbortError',
+]);
+
+const TRANSIENT_API_REASONS = new Set([
+  'quotaExceeded',
+  'dailyLimitExceeded',
+  'rateLimitExceeded',
+  'userRateLimitExceeded',
+  'uploadLimitExceeded',
+  'backendError',
+  'internalError',
+]);
+
+const PERMANENT_MESSAGE_PATTERNS = [
+  /invalid data found when processing input/i,
+  /moov atom not found/i,
+  /no such file or directory/i,
+];
+
+function readStatus(error: object): number | null {
+  const candidate =
+    ('status' in error ? (error as { status?: unknown }).status : undefined) ??
+    ('response' in error
+      ? (error as { response?: { status?: unknown } }).response?.status
+      : undefined) ??
+    ('code' in error ? (error as { code?: unknown }).code : undefined);
+  return typeof candidate === 'number' ? candidate : null;
+}
+
+function readApiReasons(error: object): string[] {
+  if (!('errors' in error)) return [];
+  const errors = (error as { errors?: unknown }).errors;
+  if (!Array.isArray(errors)) return [];
+  return errors
+    .map((entry) => (entry && typeof entry === 'object' ? (entry as { reason?: unknown }).reason : null))
+    .filter((reason): reason is string => typeof reason === 'string');
+}
+
+export function classifyUploadError(error: unknown): ErrorKind {
+  if (error instanceof PermanentUploadError) return 'permanent';
+  if (typeof error !== 'object' || error === null) return 'transient';
+
+  const code = 'code' in error ? (error as { code?: unknown }).code : undefined;
+  if (typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code)) return 'transient';
+
+  if (readApiReasons(error).some((reason) => TRANSIENT_API_REASONS.has(reason))) {
+    return 'transient';
+  }
+
+  const status = readStatus(error);
+  if (status != null) {
+    if (status === 408 || status === 429 || status >= 500) return 'transient';
+    if (status >= 400) return 'permanent';
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  if (PERMANENT_MESSAGE_PATTERNS.some((pattern) => pattern.test(message))) return 'permanent';
+
+  return 'transient';
+}
+
+export function computeRetryDelayMs(attempt: number): number {
+  const { retryBackoffBaseMinutes, retryBackoffMaxMinutes, retryBackoffMultiplier } = getConfig();
+  const exponent = Math.max(0, attempt - 1);
+  const minutes = Math.min(
+    retryBackoffBaseMinutes * retryBackoffMultiplier ** exponent,
+    retryBackoffMaxMinutes,
+  );
+  return minutes * 60 * 1000;
+}
+
+export function planRetry(error: unknown, previousRetryCount: number, now = new Date()): RetryDecision {
+  const { maxUploadAttempts } = getConfig();
+  const kind = classifyUploadError(error);
+  const attempt = previousRetryCount + 1;
+
+  if (kind === 'permanent' || attempt >= maxUploadAttempts) {
+    return { kind, status: 'dead', nextAttemptAt: null };
+  }
+
+  return {
+    kind,
+    status: 'failed',
+    nextAttemptAt: new Date(now.getTime() + computeRetryDelayMs(attempt)),
+  };
+}
@@ -0,0 +1,105 @@
+import 'server-only';
+
+import { RunRecord, RunStatus, RunStep, RunTrigger, saveRunRecord } from './db';
+import { logger } from './logger';
+
+export const RUN_TRIGGERS: RunTrigger[] = ['api', 'button', 'cli', 'cron', 'watch'];
+
+export interface RunRecorder {
+  step<T>(
+    step: string,
+    filename: string | null,
+    fn: () => Promise<T>,
+    describe?: (value: T) => string | null,
+  ): Promise<T>;
+  skip(step: string, filename: string | null, message: string): void;
+  flush(): Promise<void>;
+  finish(result: { errors: string[] } & Record<string, unknown>): Promise<void>;
+  fail(error: unknown): Promise<void>;
+  steps(): RunStep[];
+}
+
+export function createRunRecorder(
+  runId: string,
+  trigger: RunTrigger,
+  { persist: shouldPersist = true }: { persist?: boolean } = {},
+): RunRecorder {
+  const run: RunRecord = {
+    id: runId,
+    trigger,
+    status: 'running',
+    startedAt: new Date(),
+    finishedAt: null,
+    result: null,
+    errors: [],
+    steps: [],
+  };
+
+  const persist = async () => {
+    if (!shouldPersist) return;
+    try {
+      await saveRunRecord(run);
+    } catch (error) {
+      logger.warn('Failed to persist run history', { runId, error });
+    }
+  };
+
+  const complete = async (status: RunStatus) => {
+    run.status = status;
+    run.finishedAt = new Date();
+    await persist();
+  };
+
+  const pushStep = (entry: RunStep) => {
+    run.steps.push(entry);
+  };
+
+  return {
+    async step(step, filename, fn, describe) {
+      const startedAt = new Date();
+      try {
+        const value = await fn();
+        pushStep({
+          filename,
+          step,
+          status: 'ok',
+          startedAt: startedAt.toISOString(),
+          durationMs: Date.now() - startedAt.getTime(),
+          message: describe ? describe(value) : null,
+        });
+        return value;
+      } catch (error) {
+        pushStep({
+          filename,
+          step,
+          status: 'error',
+          startedAt: startedAt.toISOString(),
+          durationMs: Date.now() - startedAt.getTime(),
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    skip(step, filename, message) {
+      pushStep({
+        filename,
+        step,
+        status: 'skipped',
+        startedAt: new Date().toISOString(),
+        durationMs: 0,
+        message,
+      });
+    },
+    flush: persist,
+    async finish(result) {
+      run.result = { ...result };
+      run.errors = result.errors;
+      await complete(result.errors.length > 0 ? 'partial' : 'succeeded');
+    },
+    async fail(error) {
+      run.errors = [...run.errors, error instanceof Error ? error.message : String(error)];
+      await complete('failed');
+    },
+    steps: () => [...run.steps],
+  };
+}
@@ -0,0 +1,41 @@
+import 'server-only';
+
+import crypto from 'crypto';
+import { getConfig } from './config';
+import { acquireRunLease, releaseRunLease, renewRunLease } from './db';
+import { logger } from './logger';
+
+export class RunInProgressError extends Error {
+  readonly activeRunId: string | null;
+
+  constructor(activeRunId: string | null) {
+    super(`Agent run already in progress${activeRunId ? ` (run ${activeRunId})` : ''}`);
+    this.name = 'RunInProgressError';
+    this.activeRunId = activeRunId;
+  }
+}
+
+export interface RunLeaseHandle {
+  runId: string;
+  renew: () => Promise<void>;
+}
+
+export async function withRunLease<T>(fn: (lease: RunLeaseHandle) => Promise<T>): Promise<T> {
+  const ttlMs = getConfig().runLeaseTtlMinutes * 60 * 1000;
+  const runId = crypto.randomUUID();
+
+  const lease = await acquireRunLease(runId, ttlMs);
+  if (!lease.acquired) {
+    logger.warn('Agent run already in progress', { activeRunId: lease.activeRunId });
+    throw new RunInProgressError(lease.activeRunId);
+  }
+
+  logger.info('Acquired agent run lease', { runId });
+  try {
+    return await fn({ runId, renew: () => renewRunLease(runId, ttlMs) });
+  } finally {
+    await releaseRunLease(runId).catch((error) => {
+      logger.warn('Failed to release agent run lease', { runId, error });
+    });
+  }
+}
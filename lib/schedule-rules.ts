@@ -0,0 +1,174 @@
+import 'server-only';
+
+import { DateTime } from 'luxon';
+
+export const WEEKDAY_NAMES = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const ALL_WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+/** `HH:mm` upload windows keyed by Luxon weekday, 1 = Monday. */
+export type WeeklyUploadWindows = Record<number, string[]>;
+
+export interface BlackoutDateRange {
+  /** `yyyy-LL-dd`, or `LL-dd` for a range that recurs every year. */
+  from: string;
+  to: string;
+  yearly: boolean;
+}
+
+export type UploadWindowsInput = string | string[] | Record<string, string | string[]>;
+
+function parseWeekday(name: string): number {
+  const lower = name.trim().toLowerCase();
+  const index = lower.length >= 3 ? WEEKDAY_NAMES.findIndex((day) => day.startsWith(lower)) : -1;
+  if (index === -1) throw new Error(`Unknown weekday "${name.trim()}"`);
+  return index + 1;
+}
+
+/** Reads `mon-fri`, `sat,sun`, `weekdays`, `weekend` and single day names; `*`, `daily` and `default` mean every other day. */
+function parseDaySpec(spec: string): number[] | null {
+  const days = new Set<number>();
+  for (const part of spec.split(',').map((item) => item.trim().toLowerCase()).filter(Boolean)) {
+    if (['*', 'daily', 'default'].includes(part)) return null;
+    if (part === 'weekday' || part === 'weekdays') {
+      [1, 2, 3, 4, 5].forEach((day) => days.add(day));
+    } else if (part === 'weekend' || part === 'weekends') {
+      [6, 7].forEach((day) => days.add(day));
+    } else if (part.includes('-')) {
+      const [start, end] = part.split('-').map(parseWeekday);
+      for (let day = start; ; day = (day % 7) + 1) {
+        days.add(day);
+        if (day === end) break;
+      }
+    } else {
+      days.add(parseWeekday(part));
+    }
+  }
+  return [...days];
+}
+
+function parseTimes(value: string | string[]): string[] {
+  const times = (Array.isArray(value) ? value : value.split(',')).map((time) => time.trim()).filter(Boolean);
+  return times
+    .map((time) => {
+      const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time);
+      if (!match) throw new Error(`Invalid upload window "${time}", expected HH:mm`);
+      return `${match[1].padStart(2, '0')}:${match[2]}`;
+    })
+    .sort();
+}
+
+/**
+ * Parses upload windows. A plain list (`09:00,12:00,18:00`) applies every day. A string may
+ * also give days their own windows, separated by `;`: `mon-fri=09:00,18:00;sat,sun=11:00`.
+ * Days that are not named use the part without days, or get no windows. An object maps the
+ * same day specs to times. `sun=` leaves Sunday without uploads.
+ */
+export function parseUploadWindows(value: UploadWindowsInput): WeeklyUploadWindows {
+  const entries: [string | null, string | string[]][] = Array.isArray(value)
+    ? [[null, value]]
+    : typeof value === 'string'
+      ? value
+          .split(';')
+          .map((part) => part.trim())
+          .filter(Boolean)
+          .map((part) => {
+            const separator = part.indexOf('=');
+            return separator === -1 ? [null, part] : [part.slice(0, separator), part.slice(separator + 1)];
+          })
+      : Object.entries(value);
+
+  let fallback: string[] = [];
+  const byDay = new Map<number, string[]>();
+  for (const [spec, times] of entries) {
+    const days = spec === null ? null : parseDaySpec(spec);
+    if (days === null) {
+      fallback = parseTimes(times);
+    } else {
+      days.forEach((day) => byDay.set(day, parseTimes(times)));
+    }
+  }
+  return Object.fromEntries(ALL_WEEKDAYS.map((day) => [day, byDay.get(day) ?? fallback]));
+}
+
+function parseBlackoutDate(value: string): { date: string; yearly: boolean } {
+  const date = value.trim();
+  const yearly = /^\d{2}-\d{2}$/.test(date);
+  // 2024 is a leap year, so a yearly 02-29 validates.
+  const parsed = DateTime.fromISO(yearly ? `2024-${date}` : date);
+  if (!parsed.isValid || !/^(\d{4}-)?\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid blackout date "${date}", expected YYYY-MM-DD or MM-DD`);
+  }
+  return { date, yearly };
+}
+
+/** Parses a comma list of `YYYY-MM-DD` dates, `MM-DD` yearly dates and `from..to` ranges of either. */
+export function parseBlackoutDates(value: string | string[]): BlackoutDateRange[] {
+  const items = (Array.isArray(value) ? value : value.split(',')).map((item) => item.trim()).filter(Boolean);
+  return items.map((item) => {
+    const [fromText, toText = fromText] = item.split('..');
+    const from = parseBlackoutDate(fromText);
+    const to = parseBlackoutDate(toText);
+    if (from.yearly !== to.yearly) {
+      throw new Error(`Blackout range "${item}" mixes yearly and dated ends`);
+    }
+    if (!from.yearly && from.date > to.date) {
+      throw new Error(`Blackout range "${item}" ends before it starts`);
+    }
+    return { from: from.date, to: to.date, yearly: from.yearly };
+  });
+}
+
+export function isBlackoutDay(ranges: BlackoutDateRange[], day: DateTime): boolean {
+  const date = day.toFormat('yyyy-LL-dd');
+  const monthDay = day.toFormat('LL-dd');
+  return ranges.some((range) => {
+    if (!range.yearly) return date >= range.from && date <= range.to;
+    // Yearly ranges may wrap the new year, e.g. 12-24..01-02.
+    return range.from <= range.to
+      ? monthDay >= range.from && monthDay <= range.to
+      : monthDay >= range.from || monthDay <= range.to;
+  });
+}
+
+function groupDays(windows: WeeklyUploadWindows): { days: number[]; times: string[] }[] {
+  const groups: { days: number[]; times: string[] }[] = [];
+  for (const day of ALL_WEEKDAYS) {
+    const times = windows[day] ?? [];
+    const last = groups[groups.length - 1];
+    if (last && last.times.join() === times.join()) {
+      last.days.push(day);
+    } else {
+      groups.push({ days: [day], times });
+    }
+  }
+  return groups;
+}
+
+/** Summarises weekly windows for display, e.g. `Mon–Fri 09:00, 18:00; Sat–Sun 11:00`. */
+export function describeUploadWindows(windows: WeeklyUploadWindows): string {
+  const dayName = (day: number) => WEEKDAY_NAMES[day - 1].slice(0, 1).toUpperCase() + WEEKDAY_NAMES[day - 1].slice(1, 3);
+  return groupDays(windows)
+    .map(({ days, times }) => {
+      const label =
+        days.length === 7
+          ? 'Daily'
+          : days.length === 1
+            ? dayName(days[0])
+            : `${dayName(days[0])}–${dayName(days[days.length - 1])}`;
+      return `${label} ${times.length > 0 ? times.join(', ') : 'none'}`;
+    })
+    .join('; ');
+}
+
+/** Writes weekly windows back in the `UPLOAD_WINDOWS` syntax `parseUploadWindows` reads. */
+export function formatUploadWindows(windows: WeeklyUploadWindows): string {
+  const groups = groupDays(windows);
+  if (groups.length === 1) return groups[0].times.join(',');
+  const dayName = (day: number) => WEEKDAY_NAMES[day - 1].slice(0, 3);
+  return groups
+    .map(({ days, times }) => {
+      const spec = days.length === 1 ? dayName(days[0]) : `${dayName(days[0])}-${dayName(days[days.length - 1])}`;
+      return `${spec}=${times.join(',')}`;
+    })
+    .join(';');
+}
@@ -1,49 +1,311 @@
 import 'server-only';
 
 import { DateTime } from 'luxon';
-import { getConfig, getUploadWindowSlots } from './config';
+import { ChannelConfig } from './channels';
 import { VideoRecord } from './db';
+import { analyzePostingTimes, performanceUploadWindows } from './posting-times';
+import { isBlackoutDay, WEEKDAY_NAMES, WeeklyUploadWindows } from './schedule-rules';
 
-export function computeNextSchedule(videos: VideoRecord[], now = new Date()): Date | null {
-  const config = getConfig();
-  const timeZone = config.timezone;
-  const slots = getUploadWindowSlots().map((slot) => slot.trim()).filter(Boolean);
-  if (slots.length === 0) return null;
+const DAY_PARTS: Record<string, [number, number][]> = {
+  morning: [[5, 12]],
+  midday: [[11, 14]],
+  noon: [[11, 14]],
+  lunch: [[11, 14]],
+  afternoon: [[12, 17]],
+  evening: [[17, 22]],
+  tonight: [[17, 22]],
+  night: [
+    [21, 24],
+    [0, 5],
+  ],
+};
 
-  const nowInZone = DateTime.fromJSDate(now).setZone(timeZone);
-  const futureVideos = videos.filter(
-    (video) => video.scheduledAt && DateTime.fromJSDate(video.scheduledAt).setZone(timeZone) > nowInZone,
-  );
+/** The scheduling fields of a video's metadata. */
+export interface ScheduleHints {
+  /** An exact publish time; used as is when that day has room and no other video is at that minute. */
+  publishAt?: string;
+  /** Free text such as "evening", "weekend" or "friday 18:00"; see `parseScheduleHint`. */
+  scheduleHint?: string;
+  notBefore?: string;
+  notAfter?: string;
+}
+
+export interface ScheduleDecision {
+  slot: Date | null;
+  /** Why the hints could not be met, or why there is no slot at all; null when everything was honoured. */
+  note: string | null;
+}
+
+export interface ScheduleHintFilter {
+  /** Luxon weekdays, 1 = Monday. */
+  weekdays: Set<number> | null;
+  dates: Set<string> | null;
+  /** Hour ranges, end exclusive. */
+  hours: [number, number][] | null;
+  /** Exact times to try instead of the channel's upload windows. */
+  times: { hour: number; minute: number }[] | null;
+}
+
+/**
+ * Parses an ISO date or date-time (a space may stand in for the `T`). Values without an offset
+ * are read in `timeZone`. A bare date means the start of that day, or its end for `edge: 'end'`.
+ */
+export function parseScheduleTime(
+  value: string,
+  timeZone = 'UTC',
+  edge: 'start' | 'end' = 'start',
+): DateTime | null {
+  const trimmed = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return null;
+  const parsed = DateTime.fromISO(trimmed.replace(' ', 'T'), { zone: timeZone });
+  if (!parsed.isValid) return null;
+  return edge === 'end' && /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? parsed.endOf('day') : parsed;
+}
+
+/**
+ * Reads the parts of a schedule hint the scheduler understands: parts of the day ("morning",
+ * "afternoon", "evening", "night"), "weekday"/"weekend", day names, dates (`2025-05-01`) and
+ * times (`18:00`, `6pm`). Other words are ignored; returns null when nothing was recognised.
+ */
+export function parseScheduleHint(hint: string): ScheduleHintFilter | null {
+  const filter: ScheduleHintFilter = { weekdays: null, dates: null, hours: null, times: null };
+  const addWeekdays = (...days: number[]) => {
+    filter.weekdays = new Set([...(filter.weekdays ?? []), ...days]);
+  };
+  const pattern = /(\d{4}-\d{2}-\d{2})|(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b|(\d{1,2}):(\d{2})|([a-z]+)/g;
+
+  for (const match of hint.toLowerCase().matchAll(pattern)) {
+    const [, date, meridiemHour, meridiemMinute, meridiem, hour, minute, word] = match;
+    if (date) {
+      filter.dates = new Set([...(filter.dates ?? []), date]);
+    } else if (meridiem || hour) {
+      const hours = meridiem ? (Number(meridiemHour) % 12) + (meridiem === 'pm' ? 12 : 0) : Number(hour);
+      const minutes = Number((meridiem ? meridiemMinute : minute) ?? 0);
+      if (hours > 23 || minutes > 59) continue;
+      filter.times = [...(filter.times ?? []), { hour: hours, minute: minutes }];
+    } else if (word) {
+      const singular = word.replace(/s$/, '');
+      if (DAY_PARTS[singular]) {
+        filter.hours = [...(filter.hours ?? []), ...DAY_PARTS[singular]];
+      } else if (singular === 'weekend') {
+        addWeekdays(6, 7);
+      } else if (singular === 'weekday') {
+        addWeekdays(1, 2, 3, 4, 5);
+      } else if (singular.length >= 3) {
+        const index = WEEKDAY_NAMES.findIndex((name) => name.startsWith(singular));
+        if (index >= 0) addWeekdays(index + 1);
+      }
+    }
+  }
+
+  if (!filter.weekdays && !filter.dates && !filter.hours && !filter.times) return null;
+  filter.times?.sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+  return filter;
+}
+
+function describeTime(value: DateTime): string {
+  return value.toFormat('yyyy-LL-dd HH:mm ZZZZ');
+}
+
+interface SlotSearch {
+  earliest: DateTime;
+  notAfter: DateTime | null;
+  filter: ScheduleHintFilter | null;
+}
+
+/**
+ * The channel's upload windows. In `performance` mode each day's windows move to the hours the
+ * channel's uploaded videos did best at, until there are too few analysed videos to tell.
+ */
+function uploadWindowsFor(videos: VideoRecord[], channel: ChannelConfig): WeeklyUploadWindows {
+  if (channel.scheduleMode !== 'performance') return channel.uploadWindows;
+  const { recommendations } = analyzePostingTimes(videos, channel);
+  return recommendations.length > 0 ? performanceUploadWindows(recommendations, channel) : channel.uploadWindows;
+}
+
+/**
+ * Tracks one channel's booked slots and answers whether a time is free under its rules:
+ * blackout dates, `maxDailyUploads`, `minUploadGapMinutes`, and one video per window.
+ */
+function createSlotBook(videos: VideoRecord[], channel: ChannelConfig, nowInZone: DateTime) {
+  const timeZone = channel.timezone;
+  const uploadWindows = uploadWindowsFor(videos, channel);
+  const bookings = videos
+    .filter(
+      (video) =>
+        video.channelId === channel.id &&
+        video.scheduledAt &&
+        DateTime.fromJSDate(video.scheduledAt).setZone(timeZone) > nowInZone,
+    )
+    .map((video) => ({
+      filename: video.filename,
+      at: DateTime.fromJSDate(video.scheduledAt as Date).setZone(timeZone),
+    }));
 
   const dayCounts = new Map<string, number>();
-  for (const video of futureVideos) {
-    if (!video.scheduledAt) continue;
-    const key = DateTime.fromJSDate(video.scheduledAt).setZone(timeZone).toFormat('yyyy-LL-dd');
+  const book = (filename: string, at: DateTime) => {
+    bookings.push({ filename, at });
+    const key = at.toFormat('yyyy-LL-dd');
+    dayCounts.set(key, (dayCounts.get(key) ?? 0) + 1);
+  };
+  for (const { at } of bookings) {
+    const key = at.toFormat('yyyy-LL-dd');
     dayCounts.set(key, (dayCounts.get(key) ?? 0) + 1);
   }
 
-  for (let dayOffset = 0; dayOffset <= 14; dayOffset += 1) {
-    const baseDay = nowInZone.plus({ days: dayOffset }).startOf('day');
-    const dayKey = baseDay.toFormat('yyyy-LL-dd');
-    const uploadsForDay = dayCounts.get(dayKey) ?? 0;
-    if (uploadsForDay >= config.maxDailyUploads) continue;
-
-    for (const slot of slots) {
-      const [hour, minute] = slot.split(':').map((part) => Number(part));
-      const candidate = baseDay.set({ hour, minute, second: 0, millisecond: 0 });
-      if (dayOffset === 0 && candidate <= nowInZone.plus({ minutes: 1 })) {
-        continue;
+  /** `spread` widens the collision check to cover a window's jitter. */
+  const conflictAt = (candidate: DateTime, spread = 0): string | null => {
+    const dayKey = candidate.toFormat('yyyy-LL-dd');
+    if (isBlackoutDay(channel.blackoutDates, candidate)) return `${dayKey} is a blackout date`;
+    if ((dayCounts.get(dayKey) ?? 0) >= channel.maxDailyUploads) {
+      return `${dayKey} already has ${channel.maxDailyUploads} uploads`;
+    }
+    const distance = Math.max(1, channel.minUploadGapMinutes, spread);
+    const near = bookings.find(({ at }) => Math.abs(at.diff(candidate, 'minutes').minutes ?? 0) < distance);
+    if (!near) return null;
+    const minutes = Math.abs(near.at.diff(candidate, 'minutes').minutes ?? 0);
+    if (minutes < 1) return `${near.filename} is already scheduled then`;
+    if (minutes < channel.minUploadGapMinutes) {
+      return `${near.filename} is scheduled less than ${channel.minUploadGapMinutes} minutes away`;
+    }
+    return `${near.filename} already takes this window`;
+  };
+
+  /** Jitter moves a window by up to `scheduleJitterMinutes` either way, if the moved time is still free. */
+  const jitter = (candidate: DateTime, search: SlotSearch, random: () => number): DateTime => {
+    const range = channel.scheduleJitterMinutes;
+    if (range <= 0) return candidate;
+    const moved = candidate.plus({ minutes: Math.round((random() * 2 - 1) * range) });
+    const fits =
+      moved >= search.earliest &&
+      (!search.notAfter || moved <= search.notAfter) &&
+      moved.hasSame(candidate, 'day') &&
+      !conflictAt(moved);
+    return fits ? moved : candidate;
+  };
+
+  const findSlot = (search: SlotSearch, random: () => number = () => 0.5): DateTime | null => {
+    const { earliest, notAfter, filter } = search;
+    const firstDay = earliest.setZone(timeZone).startOf('day');
+    for (let dayOffset = 0; dayOffset <= channel.scheduleHorizonDays; dayOffset += 1) {
+      const baseDay = firstDay.plus({ days: dayOffset });
+      if (notAfter && baseDay > notAfter) return null;
+      if (filter?.weekdays && !filter.weekdays.has(baseDay.weekday)) continue;
+      if (filter?.dates && !filter.dates.has(baseDay.toFormat('yyyy-LL-dd'))) continue;
+
+      // Times named in a hint are used exactly; channel windows get jitter.
+      const exact = Boolean(filter?.times);
+      const times =
+        filter?.times ??
+        (uploadWindows[baseDay.weekday] ?? []).map((slot) => {
+          const [hour, minute] = slot.split(':').map((part) => Number(part));
+          return { hour, minute };
+        });
+      for (const { hour, minute } of times) {
+        const candidate = baseDay.set({ hour, minute, second: 0, millisecond: 0 });
+        if (candidate < earliest || (notAfter && candidate > notAfter)) continue;
+        if (filter?.hours && !filter.hours.some(([from, to]) => hour >= from && hour < to)) continue;
+        if (conflictAt(candidate, exact ? 0 : channel.scheduleJitterMinutes)) continue;
+        return exact ? candidate : jitter(candidate, search, random);
       }
-      const slotTaken = futureVideos.some((video) => {
-        if (!video.scheduledAt) return false;
-        const scheduled = DateTime.fromJSDate(video.scheduledAt).setZone(timeZone);
-        return Math.abs(scheduled.diff(candidate, 'minutes').minutes ?? 0) < 1;
-      });
-      if (slotTaken) continue;
-      return candidate.toJSDate();
+    }
+    return null;
+  };
+
+  return { book, conflictAt, findSlot };
+}
+
+/**
+ * Picks the upload slot for one video. Without hints this is the next free upload window. An
+ * available `publishAt` is used as is. Otherwise the first window matching `scheduleHint` within
+ * `notBefore`/`notAfter` is used, then any window in that range. The channel's rules (blackout
+ * dates, `maxDailyUploads`, minimum gap, one video per window) always apply, and windows are
+ * jittered by up to `scheduleJitterMinutes`. When a hint is dropped, `note` says why. In
+ * `performance` mode the windows come from the analytics of the uploaded videos in `videos`.
+ */
+export function computeNextSchedule(
+  videos: VideoRecord[],
+  channel: ChannelConfig,
+  now = new Date(),
+  hints: ScheduleHints = {},
+  random: () => number = Math.random,
+): ScheduleDecision {
+  const timeZone = channel.timezone;
+  const notes: string[] = [];
+  const decide = (slot: DateTime | null): ScheduleDecision => ({
+    slot: slot ? slot.toJSDate() : null,
+    note: notes.length > 0 ? notes.join('; ') : null,
+  });
+
+  const nowInZone = DateTime.fromJSDate(now).setZone(timeZone);
+  const slots = createSlotBook(videos, channel, nowInZone);
+
+  const readBound = (key: 'notBefore' | 'notAfter', edge: 'start' | 'end') => {
+    const value = hints[key];
+    if (!value) return null;
+    const parsed = parseScheduleTime(value, timeZone, edge);
+    if (!parsed) notes.push(`${key} "${value}" is not a date, ignored`);
+    return parsed;
+  };
+  const notBefore = readBound('notBefore', 'start');
+  const notAfter = readBound('notAfter', 'end');
+  const soonest = nowInZone.plus({ minutes: 1 });
+  let earliest = notBefore && notBefore > soonest ? notBefore : soonest;
+
+  if (notAfter && notAfter < earliest) {
+    notes.push(
+      notBefore && notBefore > notAfter
+        ? `notAfter ${describeTime(notAfter)} is before notBefore ${describeTime(notBefore)}`
+        : `notAfter ${describeTime(notAfter)} has already passed`,
+    );
+    return decide(null);
+  }
+
+  if (hints.publishAt) {
+    const pinned = parseScheduleTime(hints.publishAt, timeZone);
+    if (!pinned) {
+      notes.push(`publishAt "${hints.publishAt}" is not a date and time, ignored`);
+    } else if (pinned <= soonest) {
+      notes.push(`publishAt ${describeTime(pinned)} is in the past`);
+    } else if ((notBefore && pinned < notBefore) || (notAfter && pinned > notAfter)) {
+      notes.push(`publishAt ${describeTime(pinned)} is outside notBefore/notAfter`);
+    } else {
+      const conflict = slots.conflictAt(pinned.setZone(timeZone));
+      if (!conflict) return decide(pinned);
+      notes.push(`publishAt ${describeTime(pinned)} is unavailable: ${conflict}`);
+      earliest = pinned;
     }
   }
 
-  return null;
+  const range = notAfter
+    ? `between ${describeTime(earliest)} and ${describeTime(notAfter)}`
+    : `in the ${channel.scheduleHorizonDays} days from ${describeTime(earliest)}`;
+
+  if (hints.scheduleHint) {
+    const filter = parseScheduleHint(hints.scheduleHint);
+    if (!filter) {
+      notes.push(`scheduleHint "${hints.scheduleHint}" was not understood`);
+    } else {
+      const slot = slots.findSlot({ earliest, notAfter, filter }, random);
+      if (slot) return decide(slot);
+      notes.push(`no free slot matches scheduleHint "${hints.scheduleHint}" ${range}`);
+    }
+  }
+
+  const slot = slots.findSlot({ earliest, notAfter, filter: null }, random);
+  if (!slot) notes.push(`no free upload slot ${range}`);
+  return decide(slot);
 }
 
+/** Counts the upload windows still free within the channel's horizon, filling them in order. */
+export function countOpenSlots(videos: VideoRecord[], channel: ChannelConfig, now = new Date()): number {
+  const nowInZone = DateTime.fromJSDate(now).setZone(channel.timezone);
+  const slots = createSlotBook(videos, channel, nowInZone);
+  const search: SlotSearch = { earliest: nowInZone.plus({ minutes: 1 }), notAfter: null, filter: null };
+  let open = 0;
+  for (let slot = slots.findSlot(search); slot; slot = slots.findSlot(search)) {
+    slots.book(`open-slot-${open}`, slot);
+    open += 1;
+  }
+  return open;
+}
@@ -0,0 +1,45 @@
+import 'server-only';
+
+import crypto from 'crypto';
+import { getConfig } from './config';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+function encryptionKey(): Buffer {
+  const { tokenEncryptionKey } = getConfig();
+  if (!tokenEncryptionKey) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be set to store credentials');
+  }
+  return crypto.createHash('sha256').update(tokenEncryptionKey).digest();
+}
+
+export function hasEncryptionKey(): boolean {
+  return Boolean(getConfig().tokenEncryptionKey);
+}
+
+/** Encrypts with AES-256-GCM; the payload is `v1:<iv>:<auth tag>:<ciphertext>` in base64. */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return [
+    FORMAT_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf-8');
+}
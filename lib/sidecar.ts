@@ -0,0 +1,277 @@
+import 'server-only';
+
+import path from 'path';
+import { CORE_SCHEMA, load, YAMLException } from 'js-yaml';
+import { z } from 'zod';
+import { PRIVACY_STATUSES } from './config';
+import { parseScheduleHint, parseScheduleTime } from './scheduler';
+
+export const YOUTUBE_TITLE_MAX_CHARS = 100;
+export const YOUTUBE_DESCRIPTION_MAX_CHARS = 5000;
+export const YOUTUBE_TAGS_MAX_CHARS = 500;
+
+const scalarText = z.union([z.string(), z.number()]).transform(String);
+
+// Lists may be written as arrays or as one comma (or `#`) separated string.
+const textList = z.union([z.array(scalarText), z.string()]).transform((value) =>
+  (typeof value === 'string' ? value.split(/[,#]/) : value).map((item) => item.trim()).filter(Boolean),
+);
+
+const scheduleTime = z
+  .string()
+  .refine((value) => parseScheduleTime(value) !== null, 'Expected a date such as 2025-05-01 or 2025-05-01T18:00');
+
+const privacyStatus = z.string().trim().toLowerCase().pipe(z.enum(PRIVACY_STATUSES));
+
+/**
+ * Keys a sidecar or `_defaults.json` may set. `playlist`, `category` and `privacy` are accepted
+ * as shorter spellings of `playlists`, `categoryId` and `privacyStatus`. Unknown keys are dropped.
+ */
+export const sidecarMetadataSchema = z.object({
+  title: z.string().trim().min(1, 'Title must not be empty').optional(),
+  description: z.string().optional(),
+  tags: textList.optional(),
+  hashtags: textList.optional(),
+  language: z
+    .string()
+    .regex(/^[a-z]{2,3}([-_][a-z0-9]+)*$/i, 'Expected a language code such as en or pt-BR')
+    .optional(),
+  scheduleHint: scalarText.optional(),
+  publishAt: scheduleTime
+    .refine((value) => /T|\s\d/.test(value.trim()), 'publishAt needs a time, such as 2025-05-01T18:00')
+    .optional(),
+  notBefore: scheduleTime.optional(),
+  notAfter: scheduleTime.optional(),
+  thumbnailText: scalarText.optional(),
+  thumbnailTemplate: z.string().optional(),
+  thumbnailTime: z.union([z.string(), z.number().nonnegative()]).optional(),
+  translatedTitles: z.record(z.string(), z.string()).optional(),
+  translatedDescriptions: z.record(z.string(), z.string()).optional(),
+  playlists: textList.optional(),
+  playlist: textList.optional(),
+  categoryId: scalarText.optional(),
+  category: scalarText.optional(),
+  privacyStatus: privacyStatus.optional(),
+  privacy: privacyStatus.optional(),
+});
+
+export type SidecarMetadata = z.infer<typeof sidecarMetadataSchema>;
+
+const SIDECAR_KEYS = Object.keys(sidecarMetadataSchema.shape);
+
+export interface MetadataIssue {
+  /** One-based line in the file, or null when the problem is not tied to one line. */
+  line: number | null;
+  message: string;
+}
+
+export interface MetadataLintReport {
+  metadata: SidecarMetadata | null;
+  errors: MetadataIssue[];
+  warnings: MetadataIssue[];
+}
+
+export class MetadataFileError extends Error {
+  constructor(
+    readonly filepath: string,
+    readonly issues: MetadataIssue[],
+  ) {
+    super(`Invalid metadata file ${filepath}: ${issues.map(formatMetadataIssue).join('; ')}`);
+    this.name = 'MetadataFileError';
+  }
+}
+
+export function formatMetadataIssue(issue: MetadataIssue): string {
+  return issue.line == null ? issue.message : `line ${issue.line}: ${issue.message}`;
+}
+
+interface RawSidecar {
+  values: Record<string, unknown>;
+  issues: MetadataIssue[];
+  /** Line a key is set on, for pinning validation errors. */
+  lines: Map<string, number>;
+}
+
+function lineAtOffset(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+function findKeyLines(content: string, keys: string[], firstLine = 1): Map<string, number> {
+  const lines = new Map<string, number>();
+  content.split('\n').forEach((text, index) => {
+    for (const key of keys) {
+      if (lines.has(key)) continue;
+      const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(^|[\\s{,])["']?${escaped}["']?\\s*:`, 'i');
+      if (pattern.test(text)) lines.set(key, firstLine + index);
+    }
+  });
+  return lines;
+}
+
+function toRawSidecar(parsed: unknown, line: number, format: string): RawSidecar {
+  if (parsed == null) return { values: {}, issues: [], lines: new Map() };
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { values: {}, issues: [{ line, message: `Expected a ${format} object of metadata keys` }], lines: new Map() };
+  }
+  return { values: parsed as Record<string, unknown>, issues: [], lines: new Map() };
+}
+
+function readJson(content: string): RawSidecar {
+  try {
+    const raw = toRawSidecar(JSON.parse(content), 1, 'JSON');
+    return { ...raw, lines: findKeyLines(content, Object.keys(raw.values)) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    const position = /at position (\d+)/.exec(message);
+    return {
+      values: {},
+      issues: [{ line: position ? lineAtOffset(content, Number(position[1])) : null, message }],
+      lines: new Map(),
+    };
+  }
+}
+
+function readYaml(content: string, firstLine = 1): RawSidecar {
+  try {
+    // The core schema keeps dates and times as strings instead of turning them into Date objects.
+    const raw = toRawSidecar(load(content, { schema: CORE_SCHEMA }), firstLine, 'YAML');
+    return { ...raw, lines: findKeyLines(content, Object.keys(raw.values), firstLine) };
+  } catch (error) {
+    if (error instanceof YAMLException) {
+      return {
+        values: {},
+        issues: [{ line: error.mark ? firstLine + error.mark.line : null, message: error.reason }],
+        lines: new Map(),
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Text and Markdown sidecars either open with a `---` YAML front matter block, whose following
+ * body becomes the description, or are plain `key: value` lines with `#` comments.
+ */
+function readText(content: string): RawSidecar {
+  const lines = content.split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') {
+    const values: Record<string, unknown> = {};
+    const keyLines = new Map<string, number>();
+    lines.forEach((text, index) => {
+      const line = text.trim();
+      if (!line || line.startsWith('#')) return;
+      const [key, ...rest] = line.split(':');
+      if (!key || rest.length === 0) return;
+      const name = key.trim();
+      const canonical = SIDECAR_KEYS.find((known) => known.toLowerCase() === name.toLowerCase()) ?? name;
+      values[canonical] = rest.join(':').trim();
+      keyLines.set(canonical, index + 1);
+    });
+    return { values, issues: [], lines: keyLines };
+  }
+
+  const end = lines.findIndex((text, index) => index > 0 && ['---', '...'].includes(text.trim()));
+  if (end === -1) {
+    return { values: {}, issues: [{ line: 1, message: 'Front matter is not closed with ---' }], lines: new Map() };
+  }
+  const raw = readYaml(lines.slice(1, end).join('\n'), 2);
+  const bodyStart = lines.findIndex((text, index) => index > end && text.trim() !== '');
+  if (bodyStart === -1 || raw.issues.length > 0) return raw;
+
+  if (raw.values.description !== undefined) {
+    raw.issues.push({
+      line: raw.lines.get('description') ?? null,
+      message: 'description is set in the front matter and the body; keep one',
+    });
+    return raw;
+  }
+  raw.values = { ...raw.values, description: lines.slice(bodyStart).join('\n').trim() };
+  raw.lines.set('description', bodyStart + 1);
+  return raw;
+}
+
+function readRawSidecar(filepath: string, content: string): RawSidecar | null {
+  switch (path.extname(filepath).toLowerCase()) {
+    case '.json':
+      return readJson(content);
+    case '.yaml':
+    case '.yml':
+      return readYaml(content);
+    case '.txt':
+    case '.md':
+      return readText(content);
+    default:
+      return null;
+  }
+}
+
+function validate(raw: RawSidecar): { metadata: SidecarMetadata | null; issues: MetadataIssue[] } {
+  if (raw.issues.length > 0) return { metadata: null, issues: raw.issues };
+  const parsed = sidecarMetadataSchema.safeParse(raw.values);
+  if (parsed.success) return { metadata: parsed.data, issues: [] };
+  return {
+    metadata: null,
+    issues: parsed.error.issues.map((issue) => ({
+      line: raw.lines.get(String(issue.path[0])) ?? null,
+      message: `${issue.path.join('.')}: ${issue.message}`,
+    })),
+  };
+}
+
+/**
+ * Parses and validates a metadata file's contents. Returns null for file types that are not
+ * metadata; throws `MetadataFileError` listing every problem otherwise.
+ */
+export function parseMetadataFile(filepath: string, content: string): SidecarMetadata | null {
+  const raw = readRawSidecar(filepath, content);
+  if (!raw) return null;
+  const { metadata, issues } = validate(raw);
+  if (!metadata) throw new MetadataFileError(filepath, issues);
+  return metadata;
+}
+
+/** Tags count against YouTube's limit with the commas between them, and quotes around any with spaces. */
+export function youtubeTagsLength(tags: string[]): number {
+  return tags.reduce((total, tag, index) => total + tag.length + (/\s/.test(tag) ? 2 : 0) + (index > 0 ? 1 : 0), 0);
+}
+
+/** Like `parseMetadataFile`, but also checks YouTube's limits and flags keys the agent ignores. */
+export function lintMetadataFile(filepath: string, content: string): MetadataLintReport {
+  const raw = readRawSidecar(filepath, content);
+  if (!raw) {
+    return { metadata: null, errors: [{ line: null, message: 'Not a metadata file type' }], warnings: [] };
+  }
+  const { metadata, issues } = validate(raw);
+  const errors = [...issues];
+  const warnings: MetadataIssue[] = Object.keys(raw.values)
+    .filter((key) => !SIDECAR_KEYS.includes(key))
+    .map((key) => ({ line: raw.lines.get(key) ?? null, message: `Unknown key ${key} is ignored` }));
+  if (metadata?.scheduleHint && !parseScheduleHint(metadata.scheduleHint)) {
+    warnings.push({
+      line: raw.lines.get('scheduleHint') ?? null,
+      message: `scheduleHint "${metadata.scheduleHint}" has no day, date, time or part of day the scheduler understands`,
+    });
+  }
+
+  // Limits are checked on the raw values too, so a file with other errors still reports them.
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  const texts = (value: unknown) =>
+    value && typeof value === 'object' ? Object.entries(value).filter(([, item]) => typeof item === 'string') : [];
+  const limit = (key: string, length: number, max: number, what: string) => {
+    if (length > max) {
+      errors.push({ line: raw.lines.get(key) ?? null, message: `${what} is ${length} characters; YouTube allows ${max}` });
+    }
+  };
+  const tags = textList.safeParse(raw.values.tags);
+  limit('title', text(raw.values.title).trim().length, YOUTUBE_TITLE_MAX_CHARS, 'title');
+  limit('description', text(raw.values.description).length, YOUTUBE_DESCRIPTION_MAX_CHARS, 'description');
+  limit('tags', tags.success ? youtubeTagsLength(tags.data) : 0, YOUTUBE_TAGS_MAX_CHARS, 'tags');
+  for (const [lang, title] of texts(raw.values.translatedTitles)) {
+    limit('translatedTitles', text(title).length, YOUTUBE_TITLE_MAX_CHARS, `translatedTitles.${lang}`);
+  }
+  for (const [lang, description] of texts(raw.values.translatedDescriptions)) {
+    limit('translatedDescriptions', text(description).length, YOUTUBE_DESCRIPTION_MAX_CHARS, `translatedDescriptions.${lang}`);
+  }
+  return { metadata, errors, warnings };
+}
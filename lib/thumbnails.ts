@@ -6,44 +6,319 @@ import path from 'path';
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import { getConfig } from './config';
 import { VideoMetadata } from './metadata';
-import { VideoFileDescriptor } from './fs-utils';
+import { tempBaseName, VideoFileDescriptor } from './fs-utils';
+import { FrameSelection, selectThumbnailFrame } from './frame-selection';
+import { inspectMedia } from './media';
 import { logger } from './logger';
 
 ffmpeg.setFfmpegPath(ffmpegInstaller.path);
 
+const THUMBNAIL_WIDTH = 720;
+const THUMBNAIL_HEIGHT = 1280;
+
+type BadgePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface ThumbnailTemplate {
+  showText: boolean;
+  fontFile?: string;
+  fontFamily: string;
+  fontSize: number;
+  fontColor: string;
+  strokeColor: string;
+  strokeWidth: number;
+  boxColor?: string;
+  position: 'top' | 'center' | 'bottom';
+  maxLines: number;
+  safeArea: { top: number; bottom: number; left: number; right: number };
+  badgeImage?: string;
+  badgePosition: BadgePosition;
+  badgeWidth: number;
+  frameTime?: string | number;
+}
+
+// Safe-area margins keep text clear of the Shorts player chrome (channel name,
+// caption and action buttons) at the 720x1280 thumbnail size.
+const BUILT_IN_TEMPLATES: Record<string, ThumbnailTemplate> = {
+  default: {
+    showText: true,
+    fontFamily: 'Sans',
+    fontSize: 64,
+    fontColor: 'white',
+    strokeColor: 'black',
+    strokeWidth: 4,
+    position: 'bottom',
+    maxLines: 3,
+    safeArea: { top: 120, bottom: 260, left: 48, right: 120 },
+    badgePosition: 'top-left',
+    badgeWidth: 140,
+  },
+  headline: {
+    showText: true,
+    fontFamily: 'Sans',
+    fontSize: 72,
+    fontColor: 'yellow',
+    strokeColor: 'black',
+    strokeWidth: 6,
+    position: 'top',
+    maxLines: 2,
+    safeArea: { top: 120, bottom: 260, left: 48, right: 48 },
+    badgePosition: 'bottom-left',
+    badgeWidth: 140,
+  },
+  boxed: {
+    showText: true,
+    fontFamily: 'Sans',
+    fontSize: 56,
+    fontColor: 'white',
+    strokeColor: 'black',
+    strokeWidth: 0,
+    boxColor: 'black@0.6',
+    position: 'center',
+    maxLines: 4,
+    safeArea: { top: 120, bottom: 260, left: 48, right: 48 },
+    badgePosition: 'top-left',
+    badgeWidth: 140,
+  },
+  plain: {
+    showText: false,
+    fontFamily: 'Sans',
+    fontSize: 64,
+    fontColor: 'white',
+    strokeColor: 'black',
+    strokeWidth: 0,
+    position: 'bottom',
+    maxLines: 3,
+    safeArea: { top: 120, bottom: 260, left: 48, right: 48 },
+    badgePosition: 'top-left',
+    badgeWidth: 140,
+  },
+};
+
+let cachedTemplates: Record<string, ThumbnailTemplate> | null = null;
+
+function resolveAssetPath(assetPath: string): string {
+  return path.isAbsolute(assetPath) ? assetPath : path.join(process.cwd(), assetPath);
+}
+
+async function loadTemplates(): Promise<Record<string, ThumbnailTemplate>> {
+  if (cachedTemplates) return cachedTemplates;
+
+  const { thumbnailTemplatesFile } = getConfig();
+  const templates: Record<string, ThumbnailTemplate> = { ...BUILT_IN_TEMPLATES };
+
+  if (thumbnailTemplatesFile) {
+    try {
+      const content = await fs.readFile(resolveAssetPath(thumbnailTemplatesFile), 'utf-8');
+      const custom = JSON.parse(content) as Record<string, Partial<ThumbnailTemplate>>;
+      for (const [name, overrides] of Object.entries(custom)) {
+        const base = templates[name] ?? BUILT_IN_TEMPLATES.default;
+        templates[name] = {
+          ...base,
+          ...overrides,
+          safeArea: { ...base.safeArea, ...overrides.safeArea },
+        };
+      }
+    } catch (error) {
+      logger.warn('Failed to load thumbnail templates, using built-ins', {
+        thumbnailTemplatesFile,
+        error,
+      });
+    }
+  }
+
+  cachedTemplates = templates;
+  return templates;
+}
+
+export async function resolveThumbnailTemplate(name?: string): Promise<ThumbnailTemplate> {
+  const config = getConfig();
+  const templates = await loadTemplates();
+  const templateName = name ?? config.thumbnailTemplate;
+  const template = templates[templateName];
+  if (!template) {
+    logger.warn('Unknown thumbnail template, using default', { template: templateName });
+  }
+  const resolved = { ...(template ?? templates.default) };
+  resolved.fontFile ??= config.thumbnailFontFile;
+  resolved.badgeImage ??= config.thumbnailBadgeImage;
+  return resolved;
+}
+
+function quoteFilterValue(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function wrapText(text: string, template: ThumbnailTemplate): string {
+  const usableWidth = THUMBNAIL_WIDTH - template.safeArea.left - template.safeArea.right;
+  const maxChars = Math.max(8, Math.floor(usableWidth / (template.fontSize * 0.55)));
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.trim().split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxChars && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > template.maxLines) {
+    const kept = lines.slice(0, template.maxLines);
+    kept[kept.length - 1] = `${kept[kept.length - 1].replace(/[.,;:!?]*$/, '')}…`;
+    return kept.join('\n');
+  }
+  return lines.join('\n');
+}
+
+function textY(template: ThumbnailTemplate): string {
+  if (template.position === 'top') return String(template.safeArea.top);
+  if (template.position === 'center') return '(h-text_h)/2';
+  return `h-text_h-${template.safeArea.bottom}`;
+}
+
+function badgeOverlayPosition(template: ThumbnailTemplate): string {
+  const { top, bottom, left, right } = template.safeArea;
+  switch (template.badgePosition) {
+    case 'top-right':
+      return `main_w-overlay_w-${right}:${top}`;
+    case 'bottom-left':
+      return `${left}:main_h-overlay_h-${bottom}`;
+    case 'bottom-right':
+      return `main_w-overlay_w-${right}:main_h-overlay_h-${bottom}`;
+    default:
+      return `${left}:${top}`;
+  }
+}
+
+function buildDrawText(template: ThumbnailTemplate, textFile: string): string {
+  const { left, right } = template.safeArea;
+  const options = [
+    template.fontFile
+      ? `fontfile=${quoteFilterValue(resolveAssetPath(template.fontFile))}`
+      : `font=${quoteFilterValue(template.fontFamily)}`,
+    `textfile=${quoteFilterValue(textFile)}`,
+    'expansion=none',
+    `fontsize=${template.fontSize}`,
+    `fontcolor=${quoteFilterValue(template.fontColor)}`,
+    `line_spacing=${Math.round(template.fontSize * 0.2)}`,
+    `x=${left}+(w-${left}-${right}-text_w)/2`,
+    `y=${textY(template)}`,
+  ];
+  if (template.strokeWidth > 0) {
+    options.push(
+      `borderw=${template.strokeWidth}`,
+      `bordercolor=${quoteFilterValue(template.strokeColor)}`,
+    );
+  }
+  if (template.boxColor) {
+    options.push(
+      'box=1',
+      `boxcolor=${quoteFilterValue(template.boxColor)}`,
+      `boxborderw=${Math.round(template.fontSize * 0.3)}`,
+    );
+  }
+  return `drawtext=${options.join(':')}`;
+}
+
+async function hasBadge(template: ThumbnailTemplate): Promise<boolean> {
+  if (!template.badgeImage) return false;
+  try {
+    await fs.access(resolveAssetPath(template.badgeImage));
+    return true;
+  } catch {
+    logger.warn('Thumbnail badge image not found, skipping', { badgeImage: template.badgeImage });
+    return false;
+  }
+}
+
 export interface ThumbnailResult {
   thumbnailPath: string;
+  frameSelection: FrameSelection;
+}
+
+async function resolveDuration(video: VideoFileDescriptor): Promise<number | null> {
+  if (video.durationSeconds != null) return video.durationSeconds;
+  try {
+    return (await inspectMedia(video.filepath)).durationSeconds;
+  } catch (error) {
+    logger.warn('Failed to read duration for thumbnail selection', { video: video.filename, error });
+    return null;
+  }
 }
 
 export async function generateThumbnail(
   video: VideoFileDescriptor,
   metadata: VideoMetadata,
 ): Promise<ThumbnailResult | null> {
-  const { tempDir } = getConfig();
+  const config = getConfig();
+  const { tempDir } = config;
   await fs.mkdir(tempDir, { recursive: true });
 
-  const outputPath = path.join(
-    tempDir,
-    `${path.basename(video.filename, path.extname(video.filename))}-thumb.jpg`,
+  const baseName = tempBaseName(video);
+  const outputPath = path.join(tempDir, `${baseName}-thumb.jpg`);
+  const textFilePath = path.join(tempDir, `${baseName}-thumb.txt`);
+
+  const template = await resolveThumbnailTemplate(metadata.thumbnailTemplate);
+  const frameSelection = await selectThumbnailFrame(
+    video.filepath,
+    await resolveDuration(video),
+    metadata.thumbnailTime ?? template.frameTime,
   );
+  const frameTime = frameSelection.chosenTime;
+  const text = metadata.thumbnailText ?? metadata.title;
+  const drawText = template.showText && text.trim().length > 0;
+  const withBadge = await hasBadge(template);
 
-  await new Promise<void>((resolve, reject) => {
-    ffmpeg(video.filepath)
-      .on('end', () => resolve())
-      .on('error', (error) => reject(error))
-      .frames(1)
-      .setStartTime('00:00:02')
-      .outputOptions([
-        '-vf',
-        `scale=720:1280:force_original_aspect_ratio=increase,crop=720:1280`,
-        '-q:v',
-        '2',
-      ])
-      .save(outputPath);
-  });
+  if (drawText) {
+    await fs.writeFile(textFilePath, wrapText(text, template), 'utf-8');
+  }
 
-  logger.info('Generated thumbnail', { video: video.filename, outputPath, title: metadata.title });
+  const baseFilters = [
+    `scale=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}:force_original_aspect_ratio=increase`,
+    `crop=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}`,
+  ];
+  if (drawText) {
+    baseFilters.push(buildDrawText(template, textFilePath));
+  }
 
-  return { thumbnailPath: outputPath };
-}
+  const filters = [`[0:v]${baseFilters.join(',')}[${withBadge ? 'base' : 'out'}]`];
+  if (withBadge) {
+    filters.push(
+      `[1:v]scale=${template.badgeWidth}:-1[badge]`,
+      `[base][badge]overlay=${badgeOverlayPosition(template)}[out]`,
+    );
+  }
 
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(video.filepath).seekInput(frameTime);
+      if (withBadge && template.badgeImage) {
+        command.addInput(resolveAssetPath(template.badgeImage));
+      }
+      command
+        .complexFilter(filters, 'out')
+        .frames(1)
+        .outputOptions(['-q:v', '2'])
+        .on('end', () => resolve())
+        .on('error', (error) => reject(error))
+        .save(outputPath);
+    });
+  } finally {
+    if (drawText) {
+      await fs.unlink(textFilePath).catch(() => {});
+    }
+  }
+
+  logger.info('Generated thumbnail', {
+    video: video.filename,
+    outputPath,
+    title: metadata.title,
+    template: metadata.thumbnailTemplate ?? config.thumbnailTemplate,
+    frameTime,
+    frameSelection: frameSelection.mode,
+  });
+
+  return { thumbnailPath: outputPath, frameSelection };
+}
@@ -1,25 +1,20 @@
 import 'server-only';
 
-import { OpenAI } from 'openai';
-import { getConfig } from './config';
+import { generateText, LlmWriteOptions } from './llm';
 import { VideoMetadata } from './metadata';
 import { logger } from './logger';
 
-const client = (() => {
-  const { openAiApiKey } = getConfig();
-  if (!openAiApiKey) return null;
-  return new OpenAI({ apiKey: openAiApiKey });
-})();
-
-export async function augmentMetadataWithTrending(metadata: VideoMetadata): Promise<VideoMetadata> {
-  if (!client) return metadata;
-
+export async function augmentMetadataWithTrending(
+  metadata: VideoMetadata,
+  options: LlmWriteOptions = {},
+): Promise<VideoMetadata> {
   try {
-    const response = await client.responses.create({
-      model: 'gpt-4.1-mini',
-      input: `Provide 10 trending YouTube Shorts keywords relevant to this video title and description. Return as a comma separated list.\nTitle: ${metadata.title}\nDescription: ${metadata.description}`,
-    });
-    const text = response.output_text?.[0];
+    const response = await generateText(
+      'trending',
+      `Provide 10 trending YouTube Shorts keywords relevant to this video title and description. Return as a comma separated list.\nTitle: ${metadata.title}\nDescription: ${metadata.description}`,
+      options,
+    );
+    const text = response?.text;
     if (!text) return metadata;
     const keywords = text
       .split(/[,#\n]/)
@@ -0,0 +1,84 @@
+import 'server-only';
+
+import { promises as fs, watch, FSWatcher } from 'fs';
+import path from 'path';
+import { getChannels } from './channels';
+import { getConfig } from './config';
+import { isVideoFile } from './fs-utils';
+import { logger } from './logger';
+
+const POLL_INTERVAL_MS = 1000;
+
+interface PendingFile {
+  size: number;
+  mtimeMs: number;
+  stableSince: number;
+}
+
+export interface ContentWatcher {
+  close: () => void;
+}
+
+/**
+ * Watches every channel's content folder for new or changed videos and reports each one once
+ * its size and mtime have stayed unchanged for `watchStableSeconds`, i.e. once the copy has finished.
+ */
+export async function watchContentDir(onStable: (filepath: string) => void): Promise<ContentWatcher> {
+  const { watchStableSeconds } = getConfig();
+  const stableMs = watchStableSeconds * 1000;
+  const pending = new Map<string, PendingFile>();
+  let poller: NodeJS.Timeout | null = null;
+
+  const poll = async () => {
+    const now = Date.now();
+    for (const [filepath, entry] of pending) {
+      const stat = await fs.stat(filepath).catch(() => null);
+      if (!stat || !stat.isFile()) {
+        pending.delete(filepath);
+        continue;
+      }
+      if (stat.size !== entry.size || stat.mtimeMs !== entry.mtimeMs) {
+        pending.set(filepath, { size: stat.size, mtimeMs: stat.mtimeMs, stableSince: now });
+        continue;
+      }
+      if (stat.size > 0 && now - entry.stableSince >= stableMs) {
+        pending.delete(filepath);
+        logger.info('Watched file is stable', { filepath, size: stat.size });
+        onStable(filepath);
+      }
+    }
+    if (pending.size === 0 && poller) {
+      clearInterval(poller);
+      poller = null;
+    }
+  };
+
+  const track = (filepath: string) => {
+    if (!pending.has(filepath)) {
+      pending.set(filepath, { size: -1, mtimeMs: -1, stableSince: Date.now() });
+    }
+    poller ??= setInterval(() => {
+      poll().catch((error) => logger.warn('Failed to poll watched files', { error }));
+    }, POLL_INTERVAL_MS);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const { contentDir } of getChannels()) {
+    await fs.mkdir(contentDir, { recursive: true });
+    const watcher = watch(contentDir, { recursive: true }, (_event, filename) => {
+      if (!filename || !isVideoFile(filename)) return;
+      track(path.join(contentDir, filename));
+    });
+    watcher.on('error', (error) => logger.error('Content watcher error', { contentDir, error }));
+    watchers.push(watcher);
+    logger.info('Watching content directory', { contentDir, watchStableSeconds });
+  }
+
+  return {
+    close() {
+      watchers.forEach((watcher) => watcher.close());
+      if (poller) clearInterval(poller);
+      pending.clear();
+    },
+  };
+}
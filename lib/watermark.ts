@@ -5,12 +5,12 @@ import fs from 'fs/promises';
 import path from 'path';
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import { getConfig } from './config';
-import { VideoFileDescriptor } from './fs-utils';
+import { tempBaseName, VideoFileDescriptor } from './fs-utils';
 import { logger } from './logger';
 
 ffmpeg.setFfmpegPath(ffmpegInstaller.path);
 
-function overlayPosition(position: string) {
+export function overlayPosition(position: string) {
   switch (position) {
     case 'top-left':
       return '10:10';
@@ -23,10 +23,10 @@ function overlayPosition(position: string) {
   }
 }
 
-export async function applyWatermark(video: VideoFileDescriptor): Promise<string> {
+export async function resolveWatermarkPath(): Promise<string | null> {
   const config = getConfig();
   if (!config.enableWatermark || !config.watermarkImage) {
-    return video.filepath;
+    return null;
   }
 
   const watermarkPath = path.isAbsolute(config.watermarkImage)
@@ -37,6 +37,16 @@ export async function applyWatermark(video: VideoFileDescriptor): Promise<string
     await fs.access(watermarkPath);
   } catch {
     logger.warn('Watermark image not found, skipping', { watermarkPath });
+    return null;
+  }
+
+  return watermarkPath;
+}
+
+export async function applyWatermark(video: VideoFileDescriptor): Promise<string> {
+  const config = getConfig();
+  const watermarkPath = await resolveWatermarkPath();
+  if (!watermarkPath) {
     return video.filepath;
   }
 
@@ -45,9 +55,7 @@ export async function applyWatermark(video: VideoFileDescriptor): Promise<string
 
   const outputPath = path.join(
     tempDir,
-    `${path.basename(video.filename, path.extname(video.filename))}-watermarked${path.extname(
-      video.filename,
-    )}`,
+    `${tempBaseName(video)}-watermarked${path.extname(video.filename)}`,
   );
 
   await new Promise<void>((resolve, reject) => {
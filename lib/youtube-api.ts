@@ -0,0 +1,105 @@
+import 'server-only';
+
+import { createReadStream } from 'fs';
+import { google, youtube_v3 } from 'googleapis';
+import { ChannelConfig } from './channels';
+import { UploadSession } from './db';
+import {
+  queryUploadSession,
+  startUploadSession,
+  uploadRemainingChunks,
+  UploadSessionStatus,
+} from './resumable-upload';
+import { createOAuthClient } from './youtube-auth';
+
+export interface UploadSessionRequest {
+  videoPath: string;
+  part: string[];
+  notifySubscribers: boolean;
+  requestBody: youtube_v3.Schema$Video;
+}
+
+export interface UploadChunkOptions {
+  chunkSizeBytes: number;
+  signal?: AbortSignal;
+  onProgress: (session: UploadSession) => Promise<void>;
+}
+
+/**
+ * The YouTube Data API calls the agent makes, for one authorised channel. `lib/youtube.ts`
+ * adds metering, auth-failure handling and retries on top; implementations only talk to
+ * YouTube (or stand in for it, see `lib/youtube-fake.ts`).
+ */
+export interface YoutubeApi {
+  startUploadSession(request: UploadSessionRequest): Promise<UploadSession>;
+  queryUploadSession(session: UploadSession): Promise<UploadSessionStatus>;
+  uploadRemainingChunks(
+    session: UploadSession,
+    options: UploadChunkOptions,
+  ): Promise<youtube_v3.Schema$Video>;
+  setThumbnail(videoId: string, thumbnailPath: string): Promise<void>;
+  listVideos(params: { part: string[]; id: string[] }): Promise<youtube_v3.Schema$Video[]>;
+  updateVideo(params: { part: string[]; requestBody: youtube_v3.Schema$Video }): Promise<void>;
+  insertPlaylistItem(playlistId: string, videoId: string): Promise<string | null>;
+  listPlaylistItems(params: {
+    playlistId: string;
+    maxResults: number;
+    pageToken?: string;
+  }): Promise<{ items: youtube_v3.Schema$PlaylistItem[]; nextPageToken: string | null }>;
+  listMyChannels(part: string[]): Promise<youtube_v3.Schema$Channel[]>;
+}
+
+export type YoutubeApiFactory = (channel: ChannelConfig, refreshToken: string) => YoutubeApi;
+
+export const createGoogleYoutubeApi: YoutubeApiFactory = (channel, refreshToken) => {
+  const auth = createOAuthClient(channel);
+  auth.setCredentials({ refresh_token: refreshToken });
+  const youtube = google.youtube({ version: 'v3', auth });
+
+  return {
+    startUploadSession: (request) => startUploadSession(auth, request),
+    queryUploadSession: (session) => queryUploadSession(auth, session),
+    uploadRemainingChunks: (session, options) => uploadRemainingChunks(auth, session, options),
+    async setThumbnail(videoId, thumbnailPath) {
+      await youtube.thumbnails.set({
+        videoId,
+        media: { body: createReadStream(thumbnailPath) },
+      });
+    },
+    async listVideos({ part, id }) {
+      const response = await youtube.videos.list({ part, id });
+      return response.data.items ?? [];
+    },
+    async updateVideo({ part, requestBody }) {
+      await youtube.videos.update({ part, requestBody });
+    },
+    async insertPlaylistItem(playlistId, videoId) {
+      const response = await youtube.playlistItems.insert({
+        part: ['snippet'],
+        requestBody: {
+          snippet: {
+            playlistId,
+            resourceId: {
+              kind: 'youtube#video',
+              videoId,
+            },
+          },
+        },
+      });
+      return response.data.id ?? null;
+    },
+    async listPlaylistItems({ playlistId, maxResults, pageToken }) {
+      const response = await youtube.playlistItems.list({
+        part: ['snippet'],
+        playlistId,
+        maxResults,
+        pageToken,
+      });
+      return { items: response.data.items ?? [], nextPageToken: response.data.nextPageToken ?? null };
+    },
+    async listMyChannels(part) {
+      const response = await youtube.channels.list({ part, mine: true });
+      return response.data.items ?? [];
+    },
+  };
+};
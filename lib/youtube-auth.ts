@@ -0,0 +1,161 @@
+import 'server-only';
+
+import { google } from 'googleapis';
+import { ChannelConfig } from './channels';
+import { getConfig } from './config';
+import { getYoutubeCredential, saveYoutubeCredential, YoutubeCredential } from './db';
+import { decryptSecret, encryptSecret } from './secrets';
+import { logger } from './logger';
+
+export const YOUTUBE_OAUTH_SCOPES = [
+  'https://www.googleapis.com/auth/youtube.upload',
+  'https://www.googleapis.com/auth/youtube',
+];
+
+export const OAUTH_STATE_COOKIE = 'youtube_oauth_state';
+
+export class YoutubeAuthError extends Error {
+  constructor(
+    readonly channelId: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'YoutubeAuthError';
+  }
+}
+
+export function isInvalidGrantError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const data =
+    'response' in error ? (error as { response?: { data?: unknown } }).response?.data : undefined;
+  if (data && typeof data === 'object' && (data as { error?: unknown }).error === 'invalid_grant') {
+    return true;
+  }
+  return error instanceof Error && /invalid_grant/.test(error.message);
+}
+
+export function createOAuthClient(channel: ChannelConfig, redirectUri?: string) {
+  if (!channel.youtubeClientId || !channel.youtubeClientSecret) {
+    throw new Error(`Missing YouTube OAuth client id/secret for channel ${channel.id}`);
+  }
+  return new google.auth.OAuth2(channel.youtubeClientId, channel.youtubeClientSecret, redirectUri);
+}
+
+export function resolveRedirectUri(requestUrl: string): string {
+  return (
+    getConfig().youtubeOAuthRedirectUri ??
+    new URL('/api/auth/youtube/callback', requestUrl).toString()
+  );
+}
+
+export interface ResolvedRefreshToken {
+  refreshToken: string;
+  source: 'stored' | 'config';
+  /** Changes whenever the token does, so cached clients know to rebuild. */
+  version: string;
+  status: YoutubeCredential['status'];
+}
+
+/** Prefers a token stored by the connect flow over the one from env or the channel registry. */
+export async function resolveRefreshToken(channel: ChannelConfig): Promise<ResolvedRefreshToken | null> {
+  const credential = await getYoutubeCredential(channel.id);
+  if (credential?.encryptedRefreshToken) {
+    return {
+      refreshToken: decryptSecret(credential.encryptedRefreshToken),
+      source: 'stored',
+      version: `stored:${credential.connectedAt?.toISOString() ?? credential.updatedAt.toISOString()}`,
+      status: credential.status,
+    };
+  }
+  if (channel.youtubeRefreshToken) {
+    return {
+      refreshToken: channel.youtubeRefreshToken,
+      source: 'config',
+      version: 'config',
+      status: credential?.status ?? 'connected',
+    };
+  }
+  return null;
+}
+
+export async function storeConnectedAccount(
+  channel: ChannelConfig,
+  refreshToken: string,
+  account: { id: string | null; title: string | null },
+) {
+  const now = new Date();
+  await saveYoutubeCredential({
+    channelId: channel.id,
+    encryptedRefreshToken: encryptSecret(refreshToken),
+    status: 'connected',
+    accountChannelId: account.id,
+    accountChannelTitle: account.title,
+    lastError: null,
+    connectedAt: now,
+    updatedAt: now,
+  });
+  logger.info('Connected YouTube account', { channel: channel.id, account: account.id });
+}
+
+export async function reportYoutubeAuthFailure(channelId: string, error: unknown) {
+  const message =
+    error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+  const existing = await getYoutubeCredential(channelId);
+  await saveYoutubeCredential({
+    channelId,
+    encryptedRefreshToken: existing?.encryptedRefreshToken ?? null,
+    status: 'invalid',
+    accountChannelId: existing?.accountChannelId ?? null,
+    accountChannelTitle: existing?.accountChannelTitle ?? null,
+    lastError: message,
+    connectedAt: existing?.connectedAt ?? null,
+    updatedAt: new Date(),
+  });
+  logger.error('YouTube token refresh failed, channel needs to be reconnected', {
+    channel: channelId,
+    error: message,
+  });
+}
+
+export async function clearYoutubeAuthFailure(channelId: string) {
+  const existing = await getYoutubeCredential(channelId);
+  if (!existing || existing.status !== 'invalid') return;
+  await saveYoutubeCredential({ ...existing, status: 'connected', lastError: null, updatedAt: new Date() });
+}
+
+export async function needsReconnect(channelId: string): Promise<boolean> {
+  return (await getYoutubeCredential(channelId))?.status === 'invalid';
+}
+
+export interface YoutubeConnectionStatus {
+  channelId: string;
+  state: 'connected' | 'invalid' | 'missing';
+  source: ResolvedRefreshToken['source'] | null;
+  accountChannelTitle: string | null;
+  connectedAt: Date | null;
+  lastError: string | null;
+}
+
+export async function getYoutubeConnectionStatus(
+  channel: ChannelConfig,
+): Promise<YoutubeConnectionStatus> {
+  const credential = await getYoutubeCredential(channel.id);
+  const source = credential?.encryptedRefreshToken
+    ? 'stored'
+    : channel.youtubeRefreshToken
+      ? 'config'
+      : null;
+  const hasClient = Boolean(channel.youtubeClientId && channel.youtubeClientSecret);
+  let state: YoutubeConnectionStatus['state'] = 'connected';
+  if (!hasClient || !source) state = 'missing';
+  else if (credential?.status === 'invalid') state = 'invalid';
+
+  return {
+    channelId: channel.id,
+    state,
+    source,
+    accountChannelTitle: credential?.accountChannelTitle ?? null,
+    connectedAt: credential?.connectedAt ?? null,
+    lastError: credential?.lastError ?? null,
+  };
+}
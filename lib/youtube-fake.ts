@@ -0,0 +1,290 @@
+import 'server-only';
+
+import fs from 'fs/promises';
+import { youtube_v3 } from 'googleapis';
+import { UploadSession } from './db';
+import { quotaCost, YoutubeOperation } from './quota';
+import { UploadInterruptedError, UploadSessionExpiredError } from './resumable-upload';
+import { UploadSessionRequest, YoutubeApi, YoutubeApiFactory } from './youtube-api';
+
+/** Every `YoutubeApi` method, plus each chunk of a resumable upload. */
+export type FakeYoutubeMethod = keyof YoutubeApi | 'uploadChunk';
+
+const METHOD_OPERATIONS: Partial<Record<FakeYoutubeMethod, YoutubeOperation>> = {
+  startUploadSession: 'videos.insert',
+  setThumbnail: 'thumbnails.set',
+  listVideos: 'videos.list',
+  updateVideo: 'videos.update',
+  insertPlaylistItem: 'playlistItems.insert',
+  listPlaylistItems: 'playlistItems.list',
+  listMyChannels: 'channels.list',
+};
+
+/** Shaped like a Google API error, so retry classification treats it the same way. */
+export class FakeYoutubeError extends Error {
+  readonly errors: { reason: string; message: string }[];
+
+  constructor(
+    readonly status: number,
+    reason: string,
+    message: string = reason,
+  ) {
+    super(message);
+    this.name = 'FakeYoutubeError';
+    this.errors = [{ reason, message }];
+  }
+}
+
+export function quotaExceededError(): FakeYoutubeError {
+  return new FakeYoutubeError(
+    403,
+    'quotaExceeded',
+    'The request cannot be completed because you have exceeded your quota.',
+  );
+}
+
+export function connectionResetError(): Error {
+  return Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+}
+
+export interface FakeYoutubeVideo {
+  id: string;
+  channelId: string;
+  snippet: youtube_v3.Schema$VideoSnippet;
+  status: youtube_v3.Schema$VideoStatus;
+  localizations: Record<string, youtube_v3.Schema$VideoLocalization>;
+  thumbnailPath: string | null;
+  bytes: number;
+}
+
+export interface FakeYoutubeUpload {
+  uri: string;
+  channelId: string;
+  request: UploadSessionRequest;
+  totalBytes: number;
+  received: number;
+  /** Offsets each chunk started at; a resumed upload starts past zero. */
+  chunkOffsets: number[];
+  videoId: string | null;
+  expired: boolean;
+}
+
+export interface FakeYoutubePlaylistItem {
+  id: string;
+  playlistId: string;
+  videoId: string;
+}
+
+interface InjectedFailure {
+  method: FakeYoutubeMethod;
+  error: Error;
+  after: number;
+  times: number;
+}
+
+export interface FakeYoutube {
+  /** Pass to `setYoutubeApiFactory` so every channel talks to this stand-in. */
+  factory: YoutubeApiFactory;
+  videos: Map<string, FakeYoutubeVideo>;
+  uploads: Map<string, FakeYoutubeUpload>;
+  playlistItems: FakeYoutubePlaylistItem[];
+  calls: { channelId: string; method: FakeYoutubeMethod }[];
+  /** Units charged so far, at the same per-operation costs as the quota ledger. */
+  unitsUsed: number;
+  /** Calls fail with `quotaExceeded` once they would take usage past this; null is unlimited. */
+  quotaLimit: number | null;
+  /** Throws `error` from `method`, after letting `after` calls through, `times` times in a row. */
+  failOn(method: FakeYoutubeMethod, error: Error, options?: { after?: number; times?: number }): void;
+  expireUpload(uri: string): void;
+}
+
+export function uploadsPlaylistId(channelId: string): string {
+  return `UU-${channelId}`;
+}
+
+/**
+ * An in-memory stand-in for the YouTube Data API. It implements the calls the agent makes,
+ * charges quota, and can be told to fail, so `runAgent` can be driven end to end without
+ * Google credentials.
+ */
+export function createFakeYoutube(options: { quotaLimit?: number | null } = {}): FakeYoutube {
+  const failures: InjectedFailure[] = [];
+  let nextId = 0;
+  const newId = (prefix: string) => `${prefix}${(nextId += 1).toString().padStart(6, '0')}`;
+
+  const fake: FakeYoutube = {
+    factory: (channel) => createApi(channel.id),
+    videos: new Map(),
+    uploads: new Map(),
+    playlistItems: [],
+    calls: [],
+    unitsUsed: 0,
+    quotaLimit: options.quotaLimit ?? null,
+    failOn(method, error, { after = 0, times = 1 } = {}) {
+      failures.push({ method, error, after, times });
+    },
+    expireUpload(uri) {
+      const upload = fake.uploads.get(uri);
+      if (upload) upload.expired = true;
+    },
+  };
+
+  const intercept = (channelId: string, method: FakeYoutubeMethod) => {
+    fake.calls.push({ channelId, method });
+    const failure = failures.find((entry) => entry.method === method);
+    if (failure) {
+      if (failure.after > 0) {
+        failure.after -= 1;
+      } else {
+        failure.times -= 1;
+        if (failure.times <= 0) failures.splice(failures.indexOf(failure), 1);
+        throw failure.error;
+      }
+    }
+
+    const operation = METHOD_OPERATIONS[method];
+    if (!operation) return;
+    const cost = quotaCost(operation);
+    if (fake.quotaLimit != null && fake.unitsUsed + cost > fake.quotaLimit) {
+      throw quotaExceededError();
+    }
+    fake.unitsUsed += cost;
+  };
+
+  const findUpload = (session: UploadSession) => {
+    const upload = fake.uploads.get(session.uri);
+    if (!upload || upload.expired) throw new UploadSessionExpiredError(404);
+    return upload;
+  };
+
+  const requireVideo = (videoId: string | null | undefined) => {
+    const video = videoId ? fake.videos.get(videoId) : undefined;
+    if (!video) throw new FakeYoutubeError(404, 'videoNotFound', `Video not found: ${videoId}`);
+    return video;
+  };
+
+  const toSchemaVideo = (video: FakeYoutubeVideo): youtube_v3.Schema$Video => ({
+    id: video.id,
+    snippet: video.snippet,
+    status: video.status,
+    localizations: video.localizations,
+    statistics: { viewCount: '0', likeCount: '0', favoriteCount: '0', commentCount: '0' },
+  });
+
+  const completeUpload = (upload: FakeYoutubeUpload): youtube_v3.Schema$Video => {
+    if (!upload.videoId) {
+      const id = newId('fakevid');
+      fake.videos.set(id, {
+        id,
+        channelId: upload.channelId,
+        snippet: { ...upload.request.requestBody.snippet, publishedAt: new Date().toISOString() },
+        status: { ...upload.request.requestBody.status, uploadStatus: 'uploaded' },
+        localizations: upload.request.requestBody.localizations ?? {},
+        thumbnailPath: null,
+        bytes: upload.totalBytes,
+      });
+      upload.videoId = id;
+    }
+    return toSchemaVideo(requireVideo(upload.videoId));
+  };
+
+  function createApi(channelId: string): YoutubeApi {
+    return {
+      async startUploadSession(request) {
+        intercept(channelId, 'startUploadSession');
+        const { size } = await fs.stat(request.videoPath);
+        const uri = `fake://upload/${newId('session')}`;
+        fake.uploads.set(uri, {
+          uri,
+          channelId,
+          request,
+          totalBytes: size,
+          received: 0,
+          chunkOffsets: [],
+          videoId: null,
+          expired: false,
+        });
+        const now = new Date().toISOString();
+        return { uri, videoPath: request.videoPath, totalBytes: size, offset: 0, startedAt: now, updatedAt: now };
+      },
+      async queryUploadSession(session) {
+        intercept(channelId, 'queryUploadSession');
+        const upload = findUpload(session);
+        if (upload.received >= upload.totalBytes) return { done: true, video: completeUpload(upload) };
+        return { done: false, offset: upload.received };
+      },
+      async uploadRemainingChunks(session, { chunkSizeBytes, signal, onProgress }) {
+        const upload = findUpload(session);
+        let offset = session.offset;
+        for (;;) {
+          if (signal?.aborted) throw new UploadInterruptedError(offset);
+          intercept(channelId, 'uploadChunk');
+          findUpload(session);
+          const length = Math.min(chunkSizeBytes, upload.totalBytes - offset);
+          upload.chunkOffsets.push(offset);
+          upload.received = offset + length;
+          if (upload.received >= upload.totalBytes) return completeUpload(upload);
+
+          offset = upload.received;
+          await onProgress({ ...session, offset, updatedAt: new Date().toISOString() });
+        }
+      },
+      async setThumbnail(videoId, thumbnailPath) {
+        intercept(channelId, 'setThumbnail');
+        const video = requireVideo(videoId);
+        await fs.access(thumbnailPath);
+        video.thumbnailPath = thumbnailPath;
+      },
+      async listVideos({ id }) {
+        intercept(channelId, 'listVideos');
+        return id
+          .map((videoId) => fake.videos.get(videoId))
+          .filter((video): video is FakeYoutubeVideo => Boolean(video))
+          .map(toSchemaVideo);
+      },
+      async updateVideo({ requestBody }) {
+        intercept(channelId, 'updateVideo');
+        const video = requireVideo(requestBody.id);
+        if (requestBody.snippet) video.snippet = { ...video.snippet, ...requestBody.snippet };
+        if (requestBody.localizations) video.localizations = requestBody.localizations;
+      },
+      async insertPlaylistItem(playlistId, videoId) {
+        intercept(channelId, 'insertPlaylistItem');
+        requireVideo(videoId);
+        const item = { id: newId('fakeitem'), playlistId, videoId };
+        fake.playlistItems.push(item);
+        return item.id;
+      },
+      async listPlaylistItems({ playlistId, maxResults, pageToken }) {
+        intercept(channelId, 'listPlaylistItems');
+        const entries =
+          playlistId === uploadsPlaylistId(channelId)
+            ? [...fake.videos.values()]
+                .filter((video) => video.channelId === channelId)
+                .reverse()
+                .map((video) => ({ videoId: video.id, publishedAt: video.snippet.publishedAt }))
+            : fake.playlistItems
+                .filter((item) => item.playlistId === playlistId)
+                .map((item) => ({ videoId: item.videoId, publishedAt: undefined }));
+        const start = Number(pageToken ?? 0);
+        const page = entries.slice(start, start + maxResults);
+        return {
+          items: page.map((entry) => ({
+            snippet: {
+              playlistId,
+              publishedAt: entry.publishedAt,
+              resourceId: { kind: 'youtube#video', videoId: entry.videoId },
+            },
+          })),
+          nextPageToken: start + maxResults < entries.length ? String(start + maxResults) : null,
+        };
+      },
+      async listMyChannels() {
+        intercept(channelId, 'listMyChannels');
+        return [{ id: channelId, contentDetails: { relatedPlaylists: { uploads: uploadsPlaylistId(channelId) } } }];
+      },
+    };
+  }
+
+  return fake;
+}
@@ -1,40 +1,80 @@
 import 'server-only';
 
-import { createReadStream } from 'fs';
+import crypto from 'crypto';
 import fs from 'fs/promises';
-import { google, youtube_v3 } from 'googleapis';
+import { youtube_v3 } from 'googleapis';
+import { getChannel } from './channels';
 import { getConfig } from './config';
+import { UploadSession, VideoRecord } from './db';
 import { VideoMetadata } from './metadata';
+import { meterYoutubeCall } from './quota';
+import { toChunkSizeBytes, UploadSessionExpiredError } from './resumable-upload';
+import { YOUTUBE_TAGS_MAX_CHARS, youtubeTagsLength } from './sidecar';
+import { createGoogleYoutubeApi, YoutubeApi, YoutubeApiFactory } from './youtube-api';
+import {
+  clearYoutubeAuthFailure,
+  isInvalidGrantError,
+  reportYoutubeAuthFailure,
+  resolveRefreshToken,
+  YoutubeAuthError,
+} from './youtube-auth';
 import { logger } from './logger';
 
-let youtubeClient: youtube_v3.Youtube | null = null;
+interface CachedYoutubeClient {
+  version: string;
+  api: YoutubeApi;
+}
 
-function buildYoutubeClient(): youtube_v3.Youtube {
-  const config = getConfig();
+const youtubeClients = new Map<string, CachedYoutubeClient>();
+let youtubeApiFactory: YoutubeApiFactory = createGoogleYoutubeApi;
 
-  if (!config.youtubeClientId || !config.youtubeClientSecret || !config.youtubeRefreshToken) {
-    throw new Error('Missing YouTube OAuth credentials');
-  }
+/**
+ * Swaps the implementation behind every YouTube call, e.g. for the local stand-in in
+ * `lib/youtube-fake.ts`. Passing null restores the Google client.
+ */
+export function setYoutubeApiFactory(factory: YoutubeApiFactory | null) {
+  youtubeApiFactory = factory ?? createGoogleYoutubeApi;
+  youtubeClients.clear();
+}
 
-  const oauth2Client = new google.auth.OAuth2(
-    config.youtubeClientId,
-    config.youtubeClientSecret,
-  );
-  oauth2Client.setCredentials({
-    refresh_token: config.youtubeRefreshToken,
-  });
+// The token is re-resolved on every call so a reconnect from the dashboard is picked up
+// by a long-running daemon without a restart; the client is only rebuilt when it changed.
+async function getYoutubeClient(channelId: string) {
+  const channel = getChannel(channelId);
+  const token = await resolveRefreshToken(channel);
+  if (!channel.youtubeClientId || !channel.youtubeClientSecret || !token) {
+    throw new Error(`Missing YouTube OAuth credentials for channel ${channel.id}`);
+  }
 
-  return google.youtube({
-    version: 'v3',
-    auth: oauth2Client,
-  });
+  const cached = youtubeClients.get(channel.id);
+  if (cached && cached.version === token.version) {
+    return { client: cached, token };
+  }
+  const client = { version: token.version, api: youtubeApiFactory(channel, token.refreshToken) };
+  youtubeClients.set(channel.id, client);
+  return { client, token };
 }
 
-function getYoutubeClient(): youtube_v3.Youtube {
-  if (!youtubeClient) {
-    youtubeClient = buildYoutubeClient();
+async function withYoutubeClient<T>(
+  channelId: string,
+  fn: (api: YoutubeApi) => Promise<T>,
+): Promise<T> {
+  const { client, token } = await getYoutubeClient(channelId);
+  try {
+    const result = await fn(client.api);
+    if (token.status === 'invalid') {
+      await clearYoutubeAuthFailure(channelId);
+    }
+    return result;
+  } catch (error: unknown) {
+    if (!isInvalidGrantError(error)) throw error;
+    await reportYoutubeAuthFailure(channelId, error);
+    youtubeClients.delete(channelId);
+    throw new YoutubeAuthError(
+      channelId,
+      `YouTube refresh token for channel ${channelId} was rejected; reconnect the channel from the dashboard`,
+    );
   }
-  return youtubeClient;
 }
 
 function buildDescription(metadata: VideoMetadata): string {
@@ -43,70 +83,171 @@ function buildDescription(metadata: VideoMetadata): string {
   return `${metadata.description.trim()}${tagLine}`;
 }
 
+/**
+ * Tags sent with an upload. The fingerprint always fits: metadata tags are dropped from the end
+ * until the whole list is within YouTube's tag limit, which would otherwise reject the upload.
+ */
+export function buildUploadTags(tags: string[], fingerprint?: string): string[] {
+  const reserved = fingerprint ? [fingerprint] : [];
+  const kept = [...tags];
+  while (kept.length > 0 && youtubeTagsLength([...kept, ...reserved]) > YOUTUBE_TAGS_MAX_CHARS) {
+    kept.pop();
+  }
+  if (kept.length < tags.length) {
+    logger.warn('Dropping tags over YouTube\'s tag limit', { dropped: tags.slice(kept.length) });
+  }
+  return [...kept, ...reserved];
+}
+
+export function buildLocalizations(
+  metadata: VideoMetadata,
+): Record<string, youtube_v3.Schema$VideoLocalization> {
+  const titles = metadata.translatedTitles ?? {};
+  const descriptions = metadata.translatedDescriptions ?? {};
+  const languages = new Set([...Object.keys(titles), ...Object.keys(descriptions)]);
+  languages.delete(metadata.language);
+
+  const localizations: Record<string, youtube_v3.Schema$VideoLocalization> = {};
+  for (const lang of languages) {
+    localizations[lang] = {
+      title: (titles[lang] ?? metadata.title).trim().slice(0, 100),
+      description: buildDescription({
+        ...metadata,
+        description: descriptions[lang] ?? metadata.description,
+      }),
+    };
+  }
+  return localizations;
+}
+
 export interface UploadParams {
+  channelId: string;
   videoPath: string;
   thumbnailPath?: string | null;
   metadata: VideoMetadata;
   scheduleAt?: Date | null;
   notifySubscribers?: boolean;
   language?: string;
+  /** A session saved by an earlier attempt; the upload resumes from its offset when still valid. */
+  session?: UploadSession | null;
+  onSessionUpdate?: (session: UploadSession | null) => Promise<void>;
+  signal?: AbortSignal;
+  /**
+   * Extra tag that lets recovery find this upload on YouTube if the process dies mid-upload.
+   * Tags aren't shown on the watch page, and the fingerprint is only a hash of the file.
+   */
+  fingerprint?: string;
 }
 
 export interface UploadResult {
   videoId: string;
   scheduledPublishTime?: string;
+  localizedLanguages: string[];
+}
+
+async function uploadVideoFile(
+  channelId: string,
+  api: YoutubeApi,
+  params: UploadParams,
+  request: { part: string[]; requestBody: youtube_v3.Schema$Video },
+): Promise<youtube_v3.Schema$Video> {
+  const chunkSizeBytes = toChunkSizeBytes(getConfig().uploadChunkSizeMb);
+  const saveSession = params.onSessionUpdate ?? (async () => {});
+  let session = params.session?.videoPath === params.videoPath ? params.session : null;
+
+  // One restart is allowed when a saved or in-flight session turns out to have expired.
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      let offset = 0;
+      if (session) {
+        const status = await api.queryUploadSession(session);
+        if (status.done) return status.video;
+        offset = status.offset;
+        logger.info('Resuming YouTube upload', {
+          channel: channelId,
+          filename: params.videoPath,
+          offset,
+          totalBytes: session.totalBytes,
+        });
+      } else {
+        session = await meterYoutubeCall(channelId, 'videos.insert', () =>
+          api.startUploadSession({
+            videoPath: params.videoPath,
+            part: request.part,
+            notifySubscribers: params.notifySubscribers ?? false,
+            requestBody: request.requestBody,
+          }),
+        );
+        await saveSession(session);
+      }
+
+      return await api.uploadRemainingChunks(
+        { ...session, offset },
+        { chunkSizeBytes, signal: params.signal, onProgress: saveSession },
+      );
+    } catch (error: unknown) {
+      if (!(error instanceof UploadSessionExpiredError) || attempt > 0) throw error;
+      logger.warn('YouTube upload session expired, starting a new one', {
+        channel: channelId,
+        filename: params.videoPath,
+      });
+      session = null;
+      await saveSession(null);
+    }
+  }
 }
 
 export async function uploadShort(params: UploadParams): Promise<UploadResult> {
-  const config = getConfig();
-  const youtube = getYoutubeClient();
+  const channel = getChannel(params.channelId);
+  const localizations = buildLocalizations(params.metadata);
+  const hasLocalizations = Object.keys(localizations).length > 0;
+  const tags = buildUploadTags(params.metadata.tags, params.fingerprint);
 
   const requestBody: youtube_v3.Schema$Video = {
     snippet: {
       title: params.metadata.title.trim().slice(0, 100),
       description: buildDescription(params.metadata),
-      tags: params.metadata.tags,
-      categoryId: config.youtubeCategoryId,
+      tags,
+      categoryId: params.metadata.categoryId ?? channel.categoryId,
       defaultLanguage: params.language ?? params.metadata.language,
     },
     status: {
-      privacyStatus: config.youtubePrivacyStatus,
+      privacyStatus: params.metadata.privacyStatus ?? channel.privacyStatus,
       selfDeclaredMadeForKids: false,
       publishAt: params.scheduleAt ? params.scheduleAt.toISOString() : undefined,
     },
+    localizations: hasLocalizations ? localizations : undefined,
   };
 
   logger.info('Uploading video to YouTube', {
+    channel: channel.id,
     filename: params.videoPath,
     scheduleAt: params.scheduleAt,
+    localizations: Object.keys(localizations),
   });
 
-  const insertResponse = await youtube.videos.insert({
-    part: ['snippet', 'status'],
-    requestBody,
-    media: {
-      body: createReadStream(params.videoPath),
-    },
-    notifySubscribers: params.notifySubscribers ?? false,
-  });
-
-  const videoId = insertResponse.data.id;
-  if (!videoId) {
-    throw new Error('YouTube API did not return a video ID');
-  }
+  const videoId = await withYoutubeClient(channel.id, async (api) => {
+    const inserted = await uploadVideoFile(channel.id, api, params, {
+      part: hasLocalizations ? ['snippet', 'status', 'localizations'] : ['snippet', 'status'],
+      requestBody,
+    });
+    const insertedId = inserted.id;
+    if (!insertedId) {
+      throw new Error('YouTube API did not return a video ID');
+    }
 
-  if (params.thumbnailPath) {
-    try {
-      await youtube.thumbnails.set({
-        videoId,
-        media: {
-          body: createReadStream(params.thumbnailPath),
-        },
-      });
-    } catch (error) {
-      logger.warn('Failed to set thumbnail', { error });
+    const { thumbnailPath } = params;
+    if (thumbnailPath) {
+      try {
+        await meterYoutubeCall(channel.id, 'thumbnails.set', () =>
+          api.setThumbnail(insertedId, thumbnailPath),
+        );
+      } catch (error) {
+        logger.warn('Failed to set thumbnail', { error });
+      }
     }
-  }
+    return insertedId;
+  });
 
   if (params.thumbnailPath) {
     await fs.unlink(params.thumbnailPath).catch(() => {});
@@ -115,9 +256,153 @@ export async function uploadShort(params: UploadParams): Promise<UploadResult> {
   return {
     videoId,
     scheduledPublishTime: params.scheduleAt?.toISOString(),
+    localizedLanguages: Object.keys(localizations),
   };
 }
 
+export async function updateVideoLocalizations(
+  channelId: string,
+  videoId: string,
+  metadata: VideoMetadata,
+): Promise<string[]> {
+  const localizations = buildLocalizations(metadata);
+  const languages = Object.keys(localizations);
+  if (languages.length === 0) return [];
+
+  await withYoutubeClient(channelId, async (api) => {
+    const [video] = await meterYoutubeCall(channelId, 'videos.list', () =>
+      api.listVideos({
+        part: ['snippet', 'localizations'],
+        id: [videoId],
+      }),
+    );
+    if (!video?.snippet) {
+      throw new Error(`YouTube video not found: ${videoId}`);
+    }
+
+    // videos.update replaces the whole snippet, so resend the existing one and only
+    // fill in defaultLanguage, which YouTube requires before it accepts localizations.
+    const snippet = video.snippet;
+    await meterYoutubeCall(channelId, 'videos.update', () =>
+      api.updateVideo({
+        part: ['snippet', 'localizations'],
+        requestBody: {
+          id: videoId,
+          snippet: {
+            title: snippet.title,
+            description: snippet.description,
+            tags: snippet.tags,
+            categoryId: snippet.categoryId,
+            defaultLanguage: snippet.defaultLanguage ?? metadata.language,
+          },
+          localizations: {
+            ...(video.localizations ?? {}),
+            ...localizations,
+          },
+        },
+      }),
+    );
+  });
+
+  logger.info('Updated video localizations', { videoId, languages });
+  return languages;
+}
+
+export async function addVideoToPlaylist(
+  channelId: string,
+  videoId: string,
+  playlistId: string,
+): Promise<string> {
+  const playlistItemId = await withYoutubeClient(channelId, (api) =>
+    meterYoutubeCall(channelId, 'playlistItems.insert', () =>
+      api.insertPlaylistItem(playlistId, videoId),
+    ),
+  );
+
+  if (!playlistItemId) {
+    throw new Error('YouTube API did not return a playlist item ID');
+  }
+  return playlistItemId;
+}
+
+export function uploadFingerprint(video: Pick<VideoRecord, 'channelId' | 'filename' | 'fileHash'>): string {
+  const digest = crypto
+    .createHash('sha256')
+    .update(`${video.channelId}:${video.fileHash ?? video.filename}`)
+    .digest('hex');
+  return `upload-${digest.slice(0, 16)}`;
+}
+
+export type UploadSessionCheck =
+  | { state: 'complete'; videoId: string }
+  | { state: 'incomplete'; offset: number }
+  | { state: 'expired' };
+
+export async function checkUploadSession(
+  channelId: string,
+  session: UploadSession,
+): Promise<UploadSessionCheck> {
+  return withYoutubeClient(channelId, async (api) => {
+    try {
+      const status = await api.queryUploadSession(session);
+      if (!status.done) return { state: 'incomplete', offset: status.offset };
+      if (!status.video.id) throw new Error('YouTube API did not return a video ID');
+      return { state: 'complete', videoId: status.video.id };
+    } catch (error: unknown) {
+      if (error instanceof UploadSessionExpiredError) return { state: 'expired' };
+      throw error;
+    }
+  });
+}
+
+const ORPHAN_SEARCH_MAX_PAGES = 4;
+
+/**
+ * Walks the channel's uploads playlist, newest first, back to `since` and returns the video
+ * carrying the fingerprint tag. Private and scheduled videos are listed for the owner.
+ */
+export async function findUploadByFingerprint(
+  channelId: string,
+  fingerprint: string,
+  since: Date,
+): Promise<string | null> {
+  return withYoutubeClient(channelId, async (api) => {
+    const channels = await meterYoutubeCall(channelId, 'channels.list', () =>
+      api.listMyChannels(['contentDetails']),
+    );
+    const uploadsPlaylistId = channels[0]?.contentDetails?.relatedPlaylists?.uploads;
+    if (!uploadsPlaylistId) return null;
+
+    let pageToken: string | undefined;
+    for (let page = 0; page < ORPHAN_SEARCH_MAX_PAGES; page += 1) {
+      const response = await meterYoutubeCall(channelId, 'playlistItems.list', () =>
+        api.listPlaylistItems({
+          playlistId: uploadsPlaylistId,
+          maxResults: VIDEOS_LIST_BATCH_SIZE,
+          pageToken,
+        }),
+      );
+      const { items } = response;
+      const recentIds = items
+        .filter((item) => !item.snippet?.publishedAt || new Date(item.snippet.publishedAt) >= since)
+        .map((item) => item.snippet?.resourceId?.videoId)
+        .filter((id): id is string => Boolean(id));
+
+      if (recentIds.length > 0) {
+        const videos = await meterYoutubeCall(channelId, 'videos.list', () =>
+          api.listVideos({ part: ['snippet'], id: recentIds }),
+        );
+        const match = videos.find((video) => video.snippet?.tags?.includes(fingerprint));
+        if (match?.id) return match.id;
+      }
+
+      pageToken = response.nextPageToken ?? undefined;
+      if (!pageToken || recentIds.length < items.length) return null;
+    }
+    return null;
+  });
+}
+
 export interface VideoAnalytics {
   viewCount: number;
   likeCount: number;
@@ -127,20 +412,35 @@ export interface VideoAnalytics {
   title?: string;
 }
 
-export async function fetchVideoAnalytics(videoId: string): Promise<VideoAnalytics | null> {
-  const youtube = getYoutubeClient();
-  const response = await youtube.videos.list({
-    part: ['statistics', 'snippet'],
-    id: [videoId],
-  });
-  const [video] = response.data.items ?? [];
-  if (!video) return null;
-  return {
-    viewCount: Number(video.statistics?.viewCount ?? 0),
-    likeCount: Number(video.statistics?.likeCount ?? 0),
-    favoriteCount: Number(video.statistics?.favoriteCount ?? 0),
-    commentCount: Number(video.statistics?.commentCount ?? 0),
-    publishedAt: video.snippet?.publishedAt ?? undefined,
-    title: video.snippet?.title ?? undefined,
-  };
+/** videos.list accepts up to 50 ids per call, each call costing one quota unit. */
+export const VIDEOS_LIST_BATCH_SIZE = 50;
+
+export async function fetchVideosAnalytics(
+  channelId: string,
+  videoIds: string[],
+): Promise<Map<string, VideoAnalytics>> {
+  const analytics = new Map<string, VideoAnalytics>();
+  for (let offset = 0; offset < videoIds.length; offset += VIDEOS_LIST_BATCH_SIZE) {
+    const batch = videoIds.slice(offset, offset + VIDEOS_LIST_BATCH_SIZE);
+    const videos = await withYoutubeClient(channelId, (api) =>
+      meterYoutubeCall(channelId, 'videos.list', () =>
+        api.listVideos({
+          part: ['statistics', 'snippet'],
+          id: batch,
+        }),
+      ),
+    );
+    for (const video of videos) {
+      if (!video.id) continue;
+      analytics.set(video.id, {
+        viewCount: Number(video.statistics?.viewCount ?? 0),
+        likeCount: Number(video.statistics?.likeCount ?? 0),
+        favoriteCount: Number(video.statistics?.favoriteCount ?? 0),
+        commentCount: Number(video.statistics?.commentCount ?? 0),
+        publishedAt: video.snippet?.publishedAt ?? undefined,
+        title: video.snippet?.title ?? undefined,
+      });
+    }
+  }
+  return analytics;
 }
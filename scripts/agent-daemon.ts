@@ -0,0 +1,26 @@
+#!/usr/bin/env ts-node
+import { startAgentDaemon } from '../lib/daemon';
+import { logger } from '../lib/logger';
+
+async function main() {
+  const daemon = await startAgentDaemon();
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    logger.info('Received shutdown signal', { signal });
+    daemon
+      .stop()
+      .catch((error) => {
+        logger.error('Error during daemon shutdown', { error });
+        process.exitCode = 1;
+      })
+      .finally(() => process.exit());
+  };
+
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
+main().catch((error) => {
+  logger.error('Fatal daemon error', { error });
+  process.exit(1);
+});
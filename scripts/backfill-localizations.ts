@@ -0,0 +1,21 @@
+#!/usr/bin/env ts-node
+import { backfillLocalizations } from '../lib/localizations';
+import { logger } from '../lib/logger';
+
+async function main() {
+  try {
+    const result = await backfillLocalizations({ force: process.argv.includes('--force') });
+    logger.info('Localization backfill summary', { ...result });
+    if (result.errors.length > 0) {
+      for (const error of result.errors) {
+        logger.error(error);
+      }
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('Fatal localization backfill error', { error });
+    process.exitCode = 1;
+  }
+}
+
+main();
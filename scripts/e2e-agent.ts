@@ -0,0 +1,296 @@
+#!/usr/bin/env ts-node
+/**
+ * Drives `runAgent` end to end against the in-memory YouTube stand-in (`lib/youtube-fake.ts`)
+ * and a local LLM stand-in: scheduling, an invalid sidecar, a clean upload, a failed thumbnail,
+ * a partial upload that resumes, a video of a removed channel, quota exhaustion, and a dry run
+ * that writes nothing.
+ * Everything runs in a throwaway JSON store and content folder.
+ */
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+// Must come before any lib import: config and the store read the environment on load.
+import { contentDir, llmCacheDir, llmPort, workDir } from './e2e-env';
+import { runAgent } from '../lib/agent';
+import { DEFAULT_CHANNEL_ID } from '../lib/channels';
+import { getVideoByFilename, upsertVideoRecord } from '../lib/db';
+import { getQuotaUsage, recordQuotaUsage } from '../lib/quota';
+import { setYoutubeApiFactory } from '../lib/youtube';
+import { connectionResetError, createFakeYoutube, FakeYoutubeError } from '../lib/youtube-fake';
+
+const CHUNK_BYTES = 256 * 1024;
+
+/** Answers chat completions like an OpenAI-compatible server: `{}` when JSON is asked for, a keyword otherwise. */
+async function startFakeLlm() {
+  const stats = { requests: 0 };
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      stats.requests += 1;
+      const json = Boolean(JSON.parse(body || '{}').response_format);
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        JSON.stringify({
+          id: `e2e-${stats.requests}`,
+          object: 'chat.completion',
+          created: 0,
+          model: 'e2e',
+          choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: json ? '{}' : 'e2e' } }],
+          usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(llmPort, '127.0.0.1', resolve));
+  return {
+    stats,
+    close: () => {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
+
+/** The store, hash cache and LLM cache, file by file. */
+async function snapshotState(): Promise<Record<string, string>> {
+  const files = [path.join(workDir, 'store.json'), path.join(workDir, 'hash-cache.json')];
+  for (const name of await fs.readdir(llmCacheDir).catch(() => [])) {
+    files.push(path.join(llmCacheDir, name));
+  }
+  const state: Record<string, string> = {};
+  for (const file of files) {
+    state[path.relative(workDir, file)] = await fs.readFile(file, 'utf-8');
+  }
+  return state;
+}
+
+async function main() {
+  await fs.mkdir(contentDir, { recursive: true });
+  const fixturePath = path.join(workDir, 'fixture.mp4');
+  ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+  // Noise keeps the encode above a few chunks so partial uploads have somewhere to stop.
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg()
+      .input('testsrc2=size=720x1280:rate=30:duration=3')
+      .inputFormat('lavfi')
+      .input('anullsrc=r=44100:cl=stereo')
+      .inputFormat('lavfi')
+      .videoFilters('noise=alls=60:allf=t')
+      .outputOptions(['-t', '3', '-c:v', 'libx264', '-b:v', '4M', '-pix_fmt', 'yuv420p', '-c:a', 'aac'])
+      .on('end', () => resolve())
+      .on('error', (error) => reject(error))
+      .save(fixturePath);
+  });
+  const fixtureSize = (await fs.stat(fixturePath)).size;
+  assert.ok(fixtureSize > 3 * CHUNK_BYTES, 'fixture should span several upload chunks');
+
+  const fake = createFakeYoutube();
+  setYoutubeApiFactory(fake.factory);
+  const llm = await startFakeLlm();
+
+  /** Puts a copy of the fixture in the content folder with a record whose slot has arrived. */
+  const queueDueVideo = async (filename: string, metadata: Record<string, unknown> = {}) => {
+    await fs.copyFile(fixturePath, path.join(contentDir, filename));
+    await upsertVideoRecord({
+      filename,
+      status: 'scheduled',
+      scheduledAt: new Date(Date.now() - 60 * 1000),
+      metadata: { title: `E2E ${filename}`, description: 'End-to-end check', tags: ['e2e'], ...metadata },
+    });
+  };
+  const uploadsStarted = () => fake.calls.filter((call) => call.method === 'startUploadSession').length;
+
+  const scenarios: [string, () => Promise<void>][] = [
+    [
+      'new content is scheduled, not uploaded',
+      async () => {
+        await fs.copyFile(fixturePath, path.join(contentDir, 'fresh.mp4'));
+        await fs.writeFile(
+          path.join(contentDir, 'fresh.json'),
+          JSON.stringify({ title: 'Fresh short', description: 'From a sidecar', tags: ['fresh'] }),
+        );
+        const result = await runAgent({ trigger: 'cli' });
+        assert.equal(result.scheduled, 1);
+        assert.equal(result.uploaded, 0);
+        const record = await getVideoByFilename('fresh.mp4', DEFAULT_CHANNEL_ID);
+        assert.equal(record?.status, 'scheduled');
+        assert.ok(record?.scheduledAt && record.scheduledAt > new Date());
+        assert.equal(record?.metadata?.title, 'Fresh short');
+        assert.equal(uploadsStarted(), 0);
+      },
+    ],
+    [
+      'an invalid sidecar rejects only its own video',
+      async () => {
+        for (const filename of ['a-good.mp4', 'b-bad.mp4', 'c-good.mp4']) {
+          await fs.copyFile(fixturePath, path.join(contentDir, filename));
+        }
+        await fs.writeFile(path.join(contentDir, 'b-bad.json'), JSON.stringify({ title: '', language: 'english' }));
+        const result = await runAgent({ trigger: 'cli' });
+        assert.equal(result.scheduled, 2);
+        assert.equal(result.rejected, 1);
+        assert.match(result.rejections[0] ?? '', /^b-bad\.mp4: b-bad\.json: line 1: title: /);
+
+        const rejected = await getVideoByFilename('b-bad.mp4', DEFAULT_CHANNEL_ID);
+        assert.equal(rejected?.status, 'rejected');
+        assert.match(rejected?.error ?? '', /language: Expected a language code/);
+        assert.equal((await getVideoByFilename('c-good.mp4', DEFAULT_CHANNEL_ID))?.status, 'scheduled');
+
+        const rerun = await runAgent({ trigger: 'cli' });
+        assert.equal(rerun.rejected, 0, 'an unchanged rejection is not reported again');
+        assert.deepEqual(rerun.rejections, []);
+
+        await fs.writeFile(path.join(contentDir, 'b-bad.json'), JSON.stringify({ title: 'Fixed', language: 'en' }));
+        const fixed = await runAgent({ trigger: 'cli' });
+        assert.equal(fixed.scheduled, 1);
+        assert.equal((await getVideoByFilename('b-bad.mp4', DEFAULT_CHANNEL_ID))?.status, 'scheduled');
+      },
+    ],
+    [
+      'a due video is uploaded with its thumbnail and playlist',
+      async () => {
+        await queueDueVideo('success.mp4', { playlists: ['PL-e2e'] });
+        const result = await runAgent({ trigger: 'cli' });
+        assert.deepEqual(result.errors, []);
+        assert.equal(result.uploaded, 1);
+
+        const record = await getVideoByFilename('success.mp4', DEFAULT_CHANNEL_ID);
+        assert.equal(record?.status, 'uploaded');
+        const video = fake.videos.get(record?.youtubeVideoId ?? '');
+        assert.ok(video, 'video exists on the fake');
+        assert.equal(video.snippet.title, 'E2E success.mp4');
+        assert.equal(video.bytes, fixtureSize);
+        assert.ok(video.thumbnailPath, 'thumbnail was set');
+        assert.deepEqual(
+          fake.playlistItems.map((item) => [item.playlistId, item.videoId]),
+          [['PL-e2e', video.id]],
+        );
+        assert.equal(record?.playlistAssignments[0]?.status, 'added');
+        assert.equal((await getQuotaUsage('default')).used, fake.unitsUsed);
+      },
+    ],
+    [
+      'a failed thumbnail does not fail the upload',
+      async () => {
+        fake.failOn('setThumbnail', new FakeYoutubeError(500, 'backendError'));
+        await queueDueVideo('thumbnail.mp4');
+        const result = await runAgent({ trigger: 'cli' });
+        assert.deepEqual(result.errors, []);
+        assert.equal(result.uploaded, 1);
+
+        const record = await getVideoByFilename('thumbnail.mp4', DEFAULT_CHANNEL_ID);
+        assert.equal(record?.status, 'uploaded');
+        assert.equal(fake.videos.get(record?.youtubeVideoId ?? '')?.thumbnailPath, null);
+      },
+    ],
+    [
+      'a dropped upload resumes from the saved offset',
+      async () => {
+        fake.failOn('uploadChunk', connectionResetError(), { after: 2 });
+        await queueDueVideo('partial.mp4');
+        const first = await runAgent({ trigger: 'cli' });
+        assert.equal(first.failed, 1);
+        const failed = await getVideoByFilename('partial.mp4', DEFAULT_CHANNEL_ID);
+        assert.equal(failed?.status, 'failed');
+        assert.equal(failed?.uploadSession?.offset, 2 * CHUNK_BYTES);
+
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const started = uploadsStarted();
+        const second = await runAgent({ trigger: 'cli' });
+        assert.equal(second.uploaded, 1);
+        assert.equal(uploadsStarted(), started, 'no new upload session was opened');
+
+        const record = await getVideoByFilename('partial.mp4', DEFAULT_CHANNEL_ID);
+        assert.equal(record?.status, 'uploaded');
+        assert.equal(record?.uploadSession, null);
+        const upload = fake.uploads.get(failed?.uploadSession?.uri ?? '');
+        assert.equal(upload?.chunkOffsets.filter((offset) => offset === 2 * CHUNK_BYTES).length, 1);
+        assert.equal(fake.videos.get(record?.youtubeVideoId ?? '')?.bytes, fixtureSize);
+      },
+    ],
+    [
+      'a video of a removed channel does not hold back the queue',
+      async () => {
+        await upsertVideoRecord({
+          filename: 'orphan.mp4',
+          channelId: 'removed',
+          status: 'scheduled',
+          scheduledAt: new Date(Date.now() - 60 * 1000),
+          metadata: { title: 'Orphan', description: '', tags: [] },
+        });
+        await queueDueVideo('healthy.mp4');
+        const result = await runAgent({ trigger: 'cli' });
+        assert.deepEqual(result.errors, []);
+        assert.equal(result.uploaded, 1);
+        assert.equal((await getVideoByFilename('orphan.mp4', 'removed'))?.status, 'scheduled');
+      },
+    ],
+    [
+      'quota exhaustion fails on YouTube and defers on the ledger',
+      async () => {
+        fake.quotaLimit = fake.unitsUsed;
+        await queueDueVideo('quota.mp4');
+        const rejected = await runAgent({ trigger: 'cli' });
+        assert.equal(rejected.failed, 1);
+        assert.match(rejected.errors[0] ?? '', /exceeded your quota/);
+        assert.equal((await getVideoByFilename('quota.mp4', DEFAULT_CHANNEL_ID))?.status, 'failed');
+
+        fake.quotaLimit = null;
+        const { remaining } = await getQuotaUsage('default');
+        await recordQuotaUsage('default', 'videos.list', remaining - 100);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const started = uploadsStarted();
+        const deferred = await runAgent({ trigger: 'cli' });
+        assert.equal(deferred.deferred, 1);
+        assert.equal(uploadsStarted(), started);
+        assert.equal((await getVideoByFilename('quota.mp4', DEFAULT_CHANNEL_ID))?.status, 'failed');
+      },
+    ],
+    [
+      'a dry run leaves the store and caches untouched',
+      async () => {
+        await fs.copyFile(fixturePath, path.join(contentDir, 'dry.mp4'));
+        // A live scan would drop the removed file from the hash cache.
+        await fs.rm(path.join(contentDir, 'fresh.mp4'));
+        const before = await snapshotState();
+        assert.ok(JSON.parse(before['store.json']).llmUsage.length > 0, 'live runs recorded LLM usage');
+        assert.ok(Object.keys(before).some((file) => file.startsWith('llm-cache')), 'live runs cached LLM responses');
+
+        const requests = llm.stats.requests;
+        const result = await runAgent({ trigger: 'cli', dryRun: true });
+        assert.equal(result.scheduled, 1);
+        assert.ok(llm.stats.requests > requests, 'the dry run generated metadata');
+        assert.deepEqual(await snapshotState(), before);
+        assert.equal(await getVideoByFilename('dry.mp4', DEFAULT_CHANNEL_ID), null);
+      },
+    ],
+  ];
+
+  let failures = 0;
+  for (const [name, scenario] of scenarios) {
+    try {
+      await scenario();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failures += 1;
+      console.log(`not ok - ${name}`);
+      console.error(error);
+    }
+  }
+  llm.close();
+  console.log(`${scenarios.length - failures}/${scenarios.length} scenarios passed`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error('E2E run failed', error);
+    process.exitCode = 1;
+  })
+  .finally(() => fs.rm(workDir, { recursive: true, force: true }));
@@ -0,0 +1,48 @@
+/**
+ * Environment for `scripts/e2e-agent.ts`: a throwaway JSON store, content folder, LLM cache and
+ * fake credentials. Imported before any lib module, since config is read when they load.
+ */
+import os from 'os';
+import path from 'path';
+
+export const workDir = path.join(os.tmpdir(), `agent-e2e-${process.pid}`);
+export const contentDir = path.join(workDir, 'content');
+export const llmCacheDir = path.join(workDir, 'llm-cache');
+// The LLM stand-in listens here; config is read before it can be asked for a free port.
+export const llmPort = 20000 + (process.pid % 20000);
+
+for (const key of [
+  'POSTGRES_URL',
+  'POSTGRES_PRISMA_URL',
+  'POSTGRES_URL_NON_POOLING',
+  'DATABASE_URL',
+  'OPENAI_API_KEY',
+  'LLM_API_KEY',
+  'LLM_MODEL',
+  'LLM_CACHE_TTL_DAYS',
+  'ENABLE_TRANSLATIONS',
+  'CHANNELS_FILE',
+  'WATERMARK_IMAGE',
+  'YOUTUBE_PLAYLIST_ID',
+  'THUMBNAIL_BADGE_IMAGE',
+]) {
+  delete process.env[key];
+}
+Object.assign(process.env, {
+  CONTENT_DIR: contentDir,
+  METADATA_DIR: path.join(workDir, 'metadata'),
+  AGENT_TEMP_DIR: path.join(workDir, 'tmp'),
+  AGENT_DATA_STORE: path.join(workDir, 'store.json'),
+  HASH_CACHE_FILE: path.join(workDir, 'hash-cache.json'),
+  LLM_PROVIDER: 'openai-compatible',
+  LLM_BASE_URL: `http://127.0.0.1:${llmPort}/v1`,
+  LLM_CACHE_DIR: llmCacheDir,
+  LLM_MAX_RETRIES: '0',
+  YOUTUBE_CLIENT_ID: 'e2e-client',
+  YOUTUBE_CLIENT_SECRET: 'e2e-secret',
+  YOUTUBE_REFRESH_TOKEN: 'e2e-refresh-token',
+  NOTIFICATION_CHANNEL: 'none',
+  UPLOAD_CHUNK_SIZE_MB: '0.25',
+  RETRY_BACKOFF_BASE_MINUTES: '0.001',
+  LOG_LEVEL: process.env.LOG_LEVEL ?? 'error',
+});
@@ -0,0 +1,47 @@
+#!/usr/bin/env ts-node
+/**
+ * Checks every metadata sidecar and `_defaults.json` under each channel's content folder against
+ * the sidecar schema and YouTube's title, description and tag limits. Prints one line per problem
+ * as `file:line: level: message` and exits non-zero when any file has errors.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { getChannels } from '../lib/channels';
+import { listMetadataFiles } from '../lib/fs-utils';
+import { lintMetadataFile, MetadataIssue } from '../lib/sidecar';
+
+async function main() {
+  let files = 0;
+  let errors = 0;
+  let warnings = 0;
+  const print = (filepath: string, level: 'error' | 'warning', issue: MetadataIssue) => {
+    const location = issue.line == null ? filepath : `${filepath}:${issue.line}`;
+    console.log(`${location}: ${level}: ${issue.message}`);
+  };
+
+  for (const channel of getChannels()) {
+    for (const entry of await listMetadataFiles(channel)) {
+      files += 1;
+      const display = path.relative(process.cwd(), entry.filepath);
+      const report = lintMetadataFile(entry.filepath, await fs.readFile(entry.filepath, 'utf-8'));
+      if (entry.shadowedBy) {
+        report.warnings.unshift({
+          line: null,
+          message: `Not used: ${path.basename(entry.shadowedBy)} is read instead`,
+        });
+      }
+      report.errors.forEach((issue) => print(display, 'error', issue));
+      report.warnings.forEach((issue) => print(display, 'warning', issue));
+      errors += report.errors.length;
+      warnings += report.warnings.length;
+    }
+  }
+
+  console.log(`${files} metadata files checked: ${errors} errors, ${warnings} warnings`);
+  if (errors > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Metadata lint failed', error);
+  process.exitCode = 1;
+});
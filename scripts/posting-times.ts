@@ -0,0 +1,34 @@
+#!/usr/bin/env ts-node
+/**
+ * Prints each channel's best posting times, worked out from the view and like velocity of its
+ * uploaded videos, and the `UPLOAD_WINDOWS` value they suggest.
+ */
+import { getChannels } from '../lib/channels';
+import { listUploadedVideos } from '../lib/db';
+import { analyzePostingTimes, MIN_POSTING_TIME_SAMPLES } from '../lib/posting-times';
+import { WEEKDAY_NAMES } from '../lib/schedule-rules';
+
+async function main() {
+  const videos = await listUploadedVideos();
+  for (const channel of getChannels()) {
+    const report = analyzePostingTimes(videos, channel);
+    console.log(`${channel.name} (${report.timezone}, mode ${channel.scheduleMode}): ${report.sampleSize} videos analysed`);
+    if (report.recommendations.length === 0) {
+      console.log(`  Not enough data yet; recommendations need ${MIN_POSTING_TIME_SAMPLES} uploaded videos with analytics.`);
+      continue;
+    }
+    for (const recommendation of report.recommendations.slice(0, 5)) {
+      const day = WEEKDAY_NAMES[recommendation.weekday - 1];
+      const hour = `${String(recommendation.hour).padStart(2, '0')}:00`;
+      console.log(
+        `  ${day.padEnd(9)} ${hour}  ${recommendation.score.toFixed(2)}× median  ${recommendation.confidence} confidence (${recommendation.videos} videos)`,
+      );
+    }
+    console.log(`  Suggested UPLOAD_WINDOWS=${report.suggestedUploadWindows}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Posting time analysis failed', error);
+  process.exitCode = 1;
+});
@@ -1,11 +1,27 @@
 #!/usr/bin/env ts-node
 import { runAgent } from '../lib/agent';
 import { logger } from '../lib/logger';
+import { RunInProgressError } from '../lib/run-lock';
 
 async function main() {
   try {
-    const result = await runAgent();
+    const dryRun = process.argv.includes('--dry-run');
+    const result = await runAgent({
+      trigger: process.argv.includes('--cron-once') ? 'cron' : 'cli',
+      dryRun,
+    });
+    if (dryRun) {
+      // The plan is the output; print it as JSON so it can be piped into jq or saved.
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+      return;
+    }
     logger.info('Agent execution summary', { ...result });
+    for (const rejection of result.rejections) {
+      logger.warn(rejection);
+    }
+    for (const warning of result.warnings) {
+      logger.warn(warning);
+    }
     if (result.errors.length > 0) {
       for (const error of result.errors) {
         logger.error(error);
@@ -13,6 +29,10 @@ async function main() {
       process.exitCode = 1;
     }
   } catch (error) {
+    if (error instanceof RunInProgressError) {
+      logger.warn('Run already in progress, skipping', { activeRunId: error.activeRunId });
+      return;
+    }
     logger.error('Fatal agent error', { error });
     process.exitCode = 1;
   }